@@ -9,35 +9,74 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { StateGrid } from "@/components/StateGrid";
+import { UsTileMap } from "@/components/UsTileMap";
 import { SearchBar } from "@/components/SearchBar";
+import { TierFilterSelect } from "@/components/TierFilterSelect";
+import { ExclusionDetailsBar } from "@/components/ExclusionDetailsBar";
+import { ExclusionHistoryControls } from "@/components/ExclusionHistoryControls";
+import { AsOfDateInput } from "@/components/AsOfDateInput";
+import { BulkActionsBar } from "@/components/BulkActionsBar";
+import { ExclusionChangeConfirm } from "@/components/ExclusionChangeConfirm";
+import { SnapshotPicker } from "@/components/SnapshotPicker";
 import { useExclusions } from "@/lib/useExclusions";
-import { ResourcePool, Program, ExclusionsData } from "@/lib/types";
+import { ResourcePool, Program, ExclusionsData, ExclusionChange, ExclusionTarget, TierFilter, CoverageRule, RosterSnapshotInfo } from "@/lib/types";
+import { assignmentKey } from "@/lib/exclusions";
+import { evaluateCoverageRules } from "@/lib/coverage";
+import { filterMembersByTier } from "@/lib/parseResourcePoolCsv";
 import { getAllUsersRoute } from "@/lib/route";
-import { Users, MapPin, UserX, LayoutGrid, BarChart3, Leaf, Pill, Layers, UserPlus2, RefreshCw } from "lucide-react";
+import { Users, MapPin, UserX, LayoutGrid, BarChart3, Leaf, Pill, Layers, UserPlus2, RefreshCw, Activity, AlertTriangle, History, CalendarClock, Ban, ShieldAlert, FlaskConical, Grid3X3, GitCompare, Upload } from "lucide-react";
 
 interface DashboardClientProps {
   hrtPools: ResourcePool[];
   trtPools: ResourcePool[];
   serverExclusions: ExclusionsData;
+  dataProblems: string[];
+  coverageRules: CoverageRule[];
+  snapshots: RosterSnapshotInfo[];
 }
 
 export function DashboardClient({
   hrtPools,
   trtPools,
   serverExclusions,
+  dataProblems,
+  coverageRules,
+  snapshots,
 }: DashboardClientProps) {
   const [activeTab, setActiveTab] = useState<string>("both");
   const [searchQuery, setSearchQuery] = useState("");
+  const [tierFilter, setTierFilter] = useState<TierFilter>("primary");
+  const [selectedKeys, setSelectedKeys] = useState<Record<Program, Set<string>>>({ HRT: new Set(), TRT: new Set() });
+  const [pendingChange, setPendingChange] = useState<{ title: string; change: ExclusionChange } | null>(null);
   
   const {
-    isExcluded,
+    asOf,
+    setAsOf,
+    getPoolPartition,
     toggleExcluded,
+    planExclusions,
+    applyExclusions,
+    exclusionDetails,
+    setExclusionDetails,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    recentChanges,
+    actor,
+    setActor,
     showExcluded,
     setShowExcluded,
     getTotalExcludedCount,
     isLoaded,
   } = useExclusions(serverExclusions);
 
+  // Staffing rule violations, shown as badges on the state cards
+  const coverageViolations = useMemo(
+    () => evaluateCoverageRules(coverageRules, [...hrtPools, ...trtPools], getPoolPartition),
+    [coverageRules, hrtPools, trtPools, getPoolPartition]
+  );
+
   // Compute stats for HRT
   const hrtStats = useMemo(() => {
     let initialCount = 0;
@@ -46,16 +85,14 @@ export function DashboardClient({
     const uniqueUsers = new Set<string>();
     
     hrtPools.forEach((pool) => {
-      pool.users.forEach((user) => {
-        if (isExcluded(user, pool.state, "HRT", pool.visitType)) {
-          excludedCount++;
+      const { active, excluded } = getPoolPartition(pool);
+      excludedCount += filterMembersByTier(excluded, tierFilter).length;
+      filterMembersByTier(active, tierFilter).forEach((member) => {
+        uniqueUsers.add(member.providerId);
+        if (pool.visitType === "Initial") {
+          initialCount++;
         } else {
-          uniqueUsers.add(user);
-          if (pool.visitType === "Initial") {
-            initialCount++;
-          } else {
-            followUpCount++;
-          }
+          followUpCount++;
         }
       });
     });
@@ -69,7 +106,7 @@ export function DashboardClient({
       followUpCount,
       excludedCount,
     };
-  }, [hrtPools, isExcluded]);
+  }, [hrtPools, getPoolPartition, tierFilter]);
 
   // Compute stats for TRT
   const trtStats = useMemo(() => {
@@ -79,16 +116,14 @@ export function DashboardClient({
     const uniqueUsers = new Set<string>();
     
     trtPools.forEach((pool) => {
-      pool.users.forEach((user) => {
-        if (isExcluded(user, pool.state, "TRT", pool.visitType)) {
-          excludedCount++;
+      const { active, excluded } = getPoolPartition(pool);
+      excludedCount += filterMembersByTier(excluded, tierFilter).length;
+      filterMembersByTier(active, tierFilter).forEach((member) => {
+        uniqueUsers.add(member.providerId);
+        if (pool.visitType === "Initial") {
+          initialCount++;
         } else {
-          uniqueUsers.add(user);
-          if (pool.visitType === "Initial") {
-            initialCount++;
-          } else {
-            followUpCount++;
-          }
+          followUpCount++;
         }
       });
     });
@@ -102,7 +137,66 @@ export function DashboardClient({
       followUpCount,
       excludedCount,
     };
-  }, [trtPools, isExcluded]);
+  }, [trtPools, getPoolPartition, tierFilter]);
+
+  const selectedCount = selectedKeys.HRT.size + selectedKeys.TRT.size;
+  const poolsByProgram: Record<Program, ResourcePool[]> = { HRT: hrtPools, TRT: trtPools };
+
+  // Checked assignments in both grids
+  const getSelectedAssignments = () =>
+    (["HRT", "TRT"] as Program[]).flatMap((program) =>
+      poolsByProgram[program].flatMap((pool) =>
+        pool.members
+          .filter((member) => selectedKeys[program].has(assignmentKey({ ...member, state: pool.state, visitType: pool.visitType })))
+          .map((member) => ({ member, program, pool }))
+      )
+    );
+
+  const getSelectedTargets = (): ExclusionTarget[] =>
+    getSelectedAssignments().map(({ member, program, pool }) => (
+      { name: member.name, program, state: pool.state, visitType: pool.visitType }
+    ));
+
+  const handleBulkToggle = (exclude: boolean) => {
+    const targets = getSelectedTargets();
+    setPendingChange({
+      title: `${exclude ? "Exclude" : "Include"} ${targets.length} selected assignments`,
+      change: planExclusions(targets, exclude),
+    });
+  };
+
+  // Exclude the selected providers in every state they are listed in, in their own programs or both
+  const handleExcludeEverywhere = (bothPrograms: boolean) => {
+    // Programs each selected provider was selected in, by provider ID
+    const programsByProvider = new Map<string, Set<Program>>();
+    getSelectedAssignments().forEach(({ member, program }) => {
+      programsByProvider.set(member.providerId, (programsByProvider.get(member.providerId) || new Set()).add(program));
+    });
+
+    const targets = new Map<string, ExclusionTarget>();
+    (["HRT", "TRT"] as Program[]).forEach((program) => {
+      poolsByProgram[program].forEach((pool) => {
+        pool.members
+          .filter((member) => {
+            const programs = programsByProvider.get(member.providerId);
+            return !!programs && (bothPrograms || programs.has(program));
+          })
+          .forEach((member) => {
+            targets.set(`${member.providerId}|${program}|${pool.state}`, { name: member.name, program, state: pool.state });
+          });
+      });
+    });
+    setPendingChange({
+      title: `Exclude ${programsByProvider.size} provider${programsByProvider.size === 1 ? "" : "s"} in every state of ${bothPrograms ? "both programs" : "their program"}`,
+      change: planExclusions([...targets.values()], true),
+    });
+  };
+
+  const handleConfirmChange = () => {
+    if (pendingChange) applyExclusions(pendingChange.change, pendingChange.title);
+    setPendingChange(null);
+    setSelectedKeys({ HRT: new Set(), TRT: new Set() });
+  };
 
   if (!isLoaded) {
     return (
@@ -131,8 +225,11 @@ export function DashboardClient({
               <p className="text-sm text-white/80 mt-1">
                 Manage HRT and TRT resource assignments
               </p>
+              <div className="mt-2">
+                <SnapshotPicker snapshots={snapshots} />
+              </div>
             </div>
-            <div className="flex items-center gap-3">
+            <div className="flex flex-wrap items-center gap-3">
               <Link href="/combined">
                 <Button variant="secondary" size="sm" className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30">
                   <Layers className="h-4 w-4" />
@@ -145,12 +242,89 @@ export function DashboardClient({
                   Reports
                 </Button>
               </Link>
+              <Link href="/matrix">
+                <Button variant="secondary" size="sm" className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30">
+                  <Grid3X3 className="h-4 w-4" />
+                  Matrix
+                </Button>
+              </Link>
+              <Link href="/data-health">
+                <Button variant="secondary" size="sm" className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30">
+                  <Activity className="h-4 w-4" />
+                  Data Health
+                </Button>
+              </Link>
+              <Link href="/upload">
+                <Button variant="secondary" size="sm" className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30">
+                  <Upload className="h-4 w-4" />
+                  Upload
+                </Button>
+              </Link>
+              <Link href="/changes">
+                <Button variant="secondary" size="sm" className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30">
+                  <GitCompare className="h-4 w-4" />
+                  Changes
+                </Button>
+              </Link>
+              <Link href="/audit">
+                <Button variant="secondary" size="sm" className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30">
+                  <History className="h-4 w-4" />
+                  Audit Log
+                </Button>
+              </Link>
+              <Link href="/expiring">
+                <Button variant="secondary" size="sm" className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30">
+                  <CalendarClock className="h-4 w-4" />
+                  Expiring
+                </Button>
+              </Link>
+              <Link href="/coverage">
+                <Button variant="secondary" size="sm" className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30">
+                  <ShieldAlert className="h-4 w-4" />
+                  Coverage
+                  {coverageViolations.length > 0 && (
+                    <Badge className="bg-red-500 text-white px-1.5">{coverageViolations.length}</Badge>
+                  )}
+                </Button>
+              </Link>
+              <Link href="/simulate">
+                <Button variant="secondary" size="sm" className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30">
+                  <FlaskConical className="h-4 w-4" />
+                  Leave Simulator
+                </Button>
+              </Link>
             </div>
           </div>
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Data problems that would otherwise show up as an empty dashboard */}
+        {dataProblems.length > 0 && (
+          <Card className="border-red-300 bg-red-50 shadow-md">
+            <CardContent className="pt-4">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="flex items-start gap-3">
+                  <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
+                  <div>
+                    <p className="font-semibold text-red-800">The roster data could not be fully loaded</p>
+                    <ul className="text-sm text-red-700 list-disc ml-4">
+                      {dataProblems.map((problem) => (
+                        <li key={problem}>{problem}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+                <Link href="/data-health">
+                  <Button variant="outline" size="sm" className="border-red-300 text-red-700 hover:bg-red-100">
+                    View Data Health
+                  </Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Links to Both Programs */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <Link href="/all/hrt">
@@ -253,7 +427,9 @@ export function DashboardClient({
                   placeholder="Search users or states..."
                 />
               </div>
-              <div className="flex items-center gap-4">
+              <div className="flex items-end gap-4">
+                <AsOfDateInput value={asOf} onChange={setAsOf} />
+                <TierFilterSelect value={tierFilter} onChange={setTierFilter} />
                 <div className="flex items-center gap-2 bg-amber-50 px-3 py-2 rounded-lg border border-amber-200">
                   <Switch
                     id="show-excluded"
@@ -271,9 +447,47 @@ export function DashboardClient({
                 </div>
               </div>
             </div>
+            <div className="mt-4 pt-4 border-t flex flex-wrap items-end justify-between gap-4">
+              <ExclusionDetailsBar
+                details={exclusionDetails}
+                onDetailsChange={setExclusionDetails}
+                actor={actor}
+                onActorChange={setActor}
+              />
+              <ExclusionHistoryControls
+                recentChanges={recentChanges}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={undo}
+                onRedo={redo}
+              />
+            </div>
           </CardContent>
         </Card>
 
+        <BulkActionsBar
+          selectedCount={selectedCount}
+          onExclude={() => handleBulkToggle(true)}
+          onInclude={() => handleBulkToggle(false)}
+          onClear={() => setSelectedKeys({ HRT: new Set(), TRT: new Set() })}
+        >
+          <Button size="sm" variant="outline" onClick={() => handleExcludeEverywhere(false)} className="gap-1 border-rose-300 text-rose-700 hover:bg-rose-100">
+            <Ban className="h-4 w-4" />
+            Exclude in every state of their program
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleExcludeEverywhere(true)} className="gap-1 border-rose-300 text-rose-700 hover:bg-rose-100">
+            <Ban className="h-4 w-4" />
+            Exclude in both programs
+          </Button>
+        </BulkActionsBar>
+
+        <UsTileMap
+          hrtPools={hrtPools}
+          trtPools={trtPools}
+          getPoolPartition={getPoolPartition}
+          tierFilter={tierFilter}
+        />
+
         {/* Tabbed Content */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
           <TabsList className="grid w-full max-w-md grid-cols-3 mx-auto">
@@ -311,9 +525,13 @@ export function DashboardClient({
                 resourcePools={hrtPools}
                 program="HRT"
                 searchQuery={searchQuery}
-                isExcluded={isExcluded}
+                getPoolPartition={getPoolPartition}
                 toggleExcluded={toggleExcluded}
                 showExcluded={showExcluded}
+                tierFilter={tierFilter}
+                selectedKeys={selectedKeys.HRT}
+                onSelectedKeysChange={(keys) => setSelectedKeys((prev) => ({ ...prev, HRT: keys }))}
+                coverageViolations={coverageViolations}
               />
             </div>
 
@@ -339,9 +557,13 @@ export function DashboardClient({
                 resourcePools={trtPools}
                 program="TRT"
                 searchQuery={searchQuery}
-                isExcluded={isExcluded}
+                getPoolPartition={getPoolPartition}
                 toggleExcluded={toggleExcluded}
                 showExcluded={showExcluded}
+                tierFilter={tierFilter}
+                selectedKeys={selectedKeys.TRT}
+                onSelectedKeysChange={(keys) => setSelectedKeys((prev) => ({ ...prev, TRT: keys }))}
+                coverageViolations={coverageViolations}
               />
             </div>
           </TabsContent>
@@ -367,9 +589,13 @@ export function DashboardClient({
               resourcePools={hrtPools}
               program="HRT"
               searchQuery={searchQuery}
-              isExcluded={isExcluded}
+              getPoolPartition={getPoolPartition}
               toggleExcluded={toggleExcluded}
               showExcluded={showExcluded}
+              tierFilter={tierFilter}
+              selectedKeys={selectedKeys.HRT}
+              onSelectedKeysChange={(keys) => setSelectedKeys((prev) => ({ ...prev, HRT: keys }))}
+              coverageViolations={coverageViolations}
             />
           </TabsContent>
 
@@ -394,19 +620,32 @@ export function DashboardClient({
               resourcePools={trtPools}
               program="TRT"
               searchQuery={searchQuery}
-              isExcluded={isExcluded}
+              getPoolPartition={getPoolPartition}
               toggleExcluded={toggleExcluded}
               showExcluded={showExcluded}
+              tierFilter={tierFilter}
+              selectedKeys={selectedKeys.TRT}
+              onSelectedKeysChange={(keys) => setSelectedKeys((prev) => ({ ...prev, TRT: keys }))}
+              coverageViolations={coverageViolations}
             />
           </TabsContent>
         </Tabs>
       </main>
 
+      {pendingChange && (
+        <ExclusionChangeConfirm
+          title={pendingChange.title}
+          change={pendingChange.change}
+          onConfirm={handleConfirmChange}
+          onCancel={() => setPendingChange(null)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="border-t mt-12 bg-white/50 backdrop-blur-sm">
         <div className="container mx-auto px-4 py-4">
           <p className="text-xs text-center text-muted-foreground">
-            Resource Pool Viewer • Exclusions are per-state per-visit-type • Overrides stored in browser localStorage
+            Resource Pool Viewer • Exclusions are saved on the server for everyone, with an audit log
           </p>
         </div>
       </footer>
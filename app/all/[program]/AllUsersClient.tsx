@@ -13,13 +13,20 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { SearchBar } from "@/components/SearchBar";
-import { UserTable } from "@/components/UserTable";
+import { UserTable, UserTableRow } from "@/components/UserTable";
 import { ExportButton } from "@/components/ExportButton";
+import { TierFilterSelect } from "@/components/TierFilterSelect";
+import { ExclusionDetailsBar } from "@/components/ExclusionDetailsBar";
+import { ExclusionHistoryControls } from "@/components/ExclusionHistoryControls";
+import { BulkActionsBar } from "@/components/BulkActionsBar";
+import { ExclusionChangeConfirm } from "@/components/ExclusionChangeConfirm";
 import { useExclusions } from "@/lib/useExclusions";
-import { ResourcePool, Program, ExclusionsData } from "@/lib/types";
+import { ResourcePool, Program, VisitType, ExclusionsData, ExclusionChange, ExclusionTarget, TierFilter } from "@/lib/types";
+import { assignmentKey } from "@/lib/exclusions";
 import { getAllUsers } from "@/lib/parseResourcePoolCsv";
-import { ArrowLeft, Users, UserX, MapPin } from "lucide-react";
+import { ArrowLeft, Users, UserX, MapPin, Ban } from "lucide-react";
 
 interface AllUsersClientProps {
   program: Program;
@@ -28,6 +35,7 @@ interface AllUsersClientProps {
 }
 
 type ExclusionFilter = "all" | "excluded" | "active";
+type VisitTypeFilter = "all" | VisitType;
 
 export function AllUsersClient({
   program,
@@ -37,33 +45,59 @@ export function AllUsersClient({
   const [searchQuery, setSearchQuery] = useState("");
   const [stateFilter, setStateFilter] = useState<string>("all");
   const [exclusionFilter, setExclusionFilter] = useState<ExclusionFilter>("all");
+  const [visitTypeFilter, setVisitTypeFilter] = useState<VisitTypeFilter>("all");
+  const [groupByProvider, setGroupByProvider] = useState(false);
+  const [tierFilter, setTierFilter] = useState<TierFilter>("primary");
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [pendingChange, setPendingChange] = useState<{ title: string; change: ExclusionChange } | null>(null);
 
   const {
     isExcluded,
+    getExclusion,
     toggleExcluded,
+    planExclusions,
+    applyExclusions,
+    exclusionDetails,
+    setExclusionDetails,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    recentChanges,
+    actor,
+    setActor,
     isLoaded,
   } = useExclusions(serverExclusions);
 
   // Get all states for dropdown
   const states = useMemo(() => {
-    return resourcePools.map((p) => p.state).sort();
+    return [...new Set(resourcePools.map((p) => p.state))].sort();
   }, [resourcePools]);
 
-  // Get all users across all pools
+  // Get all users across all pools in the selected tier
   const allUsers = useMemo(() => {
-    return getAllUsers(resourcePools);
-  }, [resourcePools]);
+    return getAllUsers(resourcePools).filter(
+      (user) => tierFilter === "all" || user.tier === tierFilter
+    );
+  }, [resourcePools, tierFilter]);
+
+  // Every assignment with its state- and visit-type-specific exclusion status
+  const assignments = useMemo(() => {
+    return allUsers.map((user) => ({
+      providerId: user.providerId,
+      name: user.name,
+      state: user.state,
+      visitType: user.visitType,
+      tier: user.tier,
+      exclusion: getExclusion(user.name, user.state, program, user.visitType),
+      isExcluded: isExcluded(user.name, user.state, program, user.visitType),
+    }));
+  }, [allUsers, isExcluded, getExclusion, program]);
 
-  // Filter users with state-specific exclusion check
   const filteredUsers = useMemo(() => {
     const query = searchQuery.toLowerCase();
 
-    return allUsers
-      .map((user) => ({
-        name: user.name,
-        state: user.state,
-        isExcluded: isExcluded(user.name, user.state, program),
-      }))
+    return assignments
       .filter((user) => {
         // Filter by search
         if (query) {
@@ -75,18 +109,27 @@ export function AllUsersClient({
         if (stateFilter !== "all" && user.state !== stateFilter) {
           return false;
         }
+        // Filter by visit type
+        if (visitTypeFilter !== "all" && user.visitType !== visitTypeFilter) {
+          return false;
+        }
         // Filter by exclusion status
         if (exclusionFilter === "excluded" && !user.isExcluded) return false;
         if (exclusionFilter === "active" && user.isExcluded) return false;
         
         return true;
       });
-  }, [allUsers, searchQuery, stateFilter, exclusionFilter, isExcluded, program]);
+  }, [assignments, searchQuery, stateFilter, visitTypeFilter, exclusionFilter]);
+
+  // Checked rows, including ones hidden by the current filters
+  const selectedUsers = useMemo(() => {
+    return assignments.filter((user) => selectedKeys.has(assignmentKey(user)));
+  }, [assignments, selectedKeys]);
 
   // Stats with state-specific exclusion check
   const stats = useMemo(() => {
     const total = allUsers.length;
-    const excluded = allUsers.filter((u) => isExcluded(u.name, u.state, program)).length;
+    const excluded = allUsers.filter((u) => isExcluded(u.name, u.state, program, u.visitType)).length;
     const active = total - excluded;
     const stateCount = states.length;
     return { total, excluded, active, stateCount };
@@ -97,17 +140,51 @@ export function AllUsersClient({
     return filteredUsers.map((u) => ({
       name: u.name,
       state: u.state,
+      visitType: u.visitType,
       isExcluded: u.isExcluded,
     }));
   }, [filteredUsers]);
 
-  // Handle toggle - need to know which state the user is in
-  const handleToggleExcluded = (name: string) => {
-    // Find the user's state from filtered list
-    const user = filteredUsers.find((u) => u.name === name);
-    if (user) {
-      toggleExcluded(name, user.state, program);
-    }
+  // Toggle the exact assignment the row stands for
+  const handleToggleExcluded = (user: UserTableRow) => {
+    toggleExcluded(user.name, user.state!, program, user.visitType);
+  };
+
+  // Work out a bulk change and ask for confirmation before applying it
+  const proposeChange = (title: string, targets: ExclusionTarget[], exclude: boolean) => {
+    setPendingChange({ title, change: planExclusions(targets, exclude) });
+  };
+
+  const handleBulkToggle = (exclude: boolean) => {
+    proposeChange(
+      `${exclude ? "Exclude" : "Include"} ${selectedUsers.length} selected assignments`,
+      selectedUsers.map((user) => ({ name: user.name, program, state: user.state, visitType: user.visitType })),
+      exclude
+    );
+  };
+
+  // Exclude the selected providers in every state they are listed in, both visit types
+  const handleExcludeEverywhere = () => {
+    const providerIds = new Set(selectedUsers.map((user) => user.providerId));
+    const targets = new Map<string, ExclusionTarget>();
+    resourcePools.forEach((pool) => {
+      pool.members
+        .filter((member) => providerIds.has(member.providerId))
+        .forEach((member) => {
+          targets.set(`${member.providerId}|${pool.state}`, { name: member.name, program, state: pool.state });
+        });
+    });
+    proposeChange(
+      `Exclude ${providerIds.size} provider${providerIds.size === 1 ? "" : "s"} in every ${program} state`,
+      [...targets.values()],
+      true
+    );
+  };
+
+  const handleConfirmChange = () => {
+    if (pendingChange) applyExclusions(pendingChange.change, pendingChange.title);
+    setPendingChange(null);
+    setSelectedKeys(new Set());
   };
 
   if (!isLoaded) {
@@ -211,7 +288,8 @@ export function AllUsersClient({
                     placeholder="Search users or states..."
                   />
                 </div>
-                <div className="flex gap-4">
+                <div className="flex flex-wrap gap-4">
+                  <TierFilterSelect value={tierFilter} onChange={setTierFilter} />
                   <div className="space-y-1.5">
                     <Label className="text-xs text-muted-foreground">State</Label>
                     <Select value={stateFilter} onValueChange={setStateFilter}>
@@ -228,6 +306,22 @@ export function AllUsersClient({
                       </SelectContent>
                     </Select>
                   </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-xs text-muted-foreground">Visit type</Label>
+                    <Select
+                      value={visitTypeFilter}
+                      onValueChange={(v) => setVisitTypeFilter(v as VisitTypeFilter)}
+                    >
+                      <SelectTrigger className="w-[140px]">
+                        <SelectValue placeholder="All" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All</SelectItem>
+                        <SelectItem value="Initial">Initial</SelectItem>
+                        <SelectItem value="Follow Up">Follow Up</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="space-y-1.5">
                     <Label className="text-xs text-muted-foreground">Status</Label>
                     <Select
@@ -244,6 +338,16 @@ export function AllUsersClient({
                       </SelectContent>
                     </Select>
                   </div>
+                  <div className="flex items-center gap-2 self-end bg-violet-50 px-3 py-2 rounded-lg border border-violet-200">
+                    <Switch
+                      id="group-by-provider"
+                      checked={groupByProvider}
+                      onCheckedChange={setGroupByProvider}
+                    />
+                    <Label htmlFor="group-by-provider" className="text-sm cursor-pointer text-violet-800">
+                      Group by provider
+                    </Label>
+                  </div>
                 </div>
               </div>
               <ExportButton
@@ -251,6 +355,21 @@ export function AllUsersClient({
                 filename={`${program}_all_users.csv`}
               />
             </div>
+            <div className="mt-4 pt-4 border-t flex flex-wrap items-end justify-between gap-4">
+              <ExclusionDetailsBar
+                details={exclusionDetails}
+                onDetailsChange={setExclusionDetails}
+                actor={actor}
+                onActorChange={setActor}
+              />
+              <ExclusionHistoryControls
+                recentChanges={recentChanges}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={undo}
+                onRedo={redo}
+              />
+            </div>
           </CardContent>
         </Card>
 
@@ -259,16 +378,42 @@ export function AllUsersClient({
           Showing {filteredUsers.length} of {stats.total} assignments
           {searchQuery && ` matching "${searchQuery}"`}
           {stateFilter !== "all" && ` in ${stateFilter}`}
+          {visitTypeFilter !== "all" && ` for ${visitTypeFilter}`}
           {exclusionFilter !== "all" && ` (${exclusionFilter})`}
         </div>
 
+        <BulkActionsBar
+          selectedCount={selectedKeys.size}
+          onExclude={() => handleBulkToggle(true)}
+          onInclude={() => handleBulkToggle(false)}
+          onClear={() => setSelectedKeys(new Set())}
+        >
+          <Button size="sm" variant="outline" onClick={handleExcludeEverywhere} className="gap-1 border-rose-300 text-rose-700 hover:bg-rose-100">
+            <Ban className="h-4 w-4" />
+            Exclude in every {program} state
+          </Button>
+        </BulkActionsBar>
+
         {/* User Table */}
         <UserTable
           users={filteredUsers}
           showStateColumn
+          showVisitTypeColumn
+          groupByProvider={groupByProvider}
+          selectedKeys={selectedKeys}
+          onSelectedKeysChange={setSelectedKeys}
           onToggleExcluded={handleToggleExcluded}
         />
       </main>
+
+      {pendingChange && (
+        <ExclusionChangeConfirm
+          title={pendingChange.title}
+          change={pendingChange.change}
+          onConfirm={handleConfirmChange}
+          onCancel={() => setPendingChange(null)}
+        />
+      )}
     </div>
   );
 }
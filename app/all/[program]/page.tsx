@@ -1,5 +1,6 @@
 import { notFound } from "next/navigation";
-import { loadProgramData, loadExclusions } from "@/lib/data";
+import { getAllProgramData } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
 import { normalizeProgram } from "@/lib/route";
 import { AllUsersClient } from "./AllUsersClient";
 
@@ -17,8 +18,9 @@ export default async function AllUsersPage({ params }: PageProps) {
     notFound();
   }
 
-  const resourcePools = loadProgramData(program);
-  const exclusions = loadExclusions();
+  const viewedSnapshot = await getViewedSnapshot();
+  const { hrt, trt, exclusions } = getAllProgramData(viewedSnapshot?.id);
+  const resourcePools = program === "HRT" ? hrt : trt;
 
   return (
     <AllUsersClient
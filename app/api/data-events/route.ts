@@ -0,0 +1,54 @@
+import { getDataFileVersions, subscribeDataChanges } from "@/lib/dataEvents";
+
+export const dynamic = "force-dynamic";
+
+// Comment lines sent between events so idle connections are not dropped by proxies
+const KEEP_ALIVE_MS = 25000;
+
+/**
+ * Server-sent events with the versions of the watched /data files: once on
+ * connect and again whenever one of them changes.
+ */
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+      const sendVersions = (versions: ReturnType<typeof getDataFileVersions>) =>
+        send(`event: versions\ndata: ${JSON.stringify(versions)}\n\n`);
+
+      const unsubscribe = subscribeDataChanges(sendVersions);
+      const keepAlive = setInterval(() => send(": keep-alive\n\n"), KEEP_ALIVE_MS);
+      close = () => {
+        unsubscribe();
+        clearInterval(keepAlive);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener("abort", () => close());
+      sendVersions(getDataFileVersions());
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { loadExclusions, addExclusionRules, removeExclusionRules } from "@/lib/data";
+import { parseExclusionRules } from "@/lib/exclusions";
+import { ExclusionsData, ExclusionRule } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+const MAX_ACTOR_LENGTH = 100;
+
+interface ExclusionsBody {
+  entries: ExclusionRule[];
+  actor: string;
+  restore: boolean; // Re-adding removed rules with their original author and time
+}
+
+/**
+ * Read `{ exclusions: ExclusionRule[], actor?: string, restore?: boolean }` from a request body.
+ * Changes without a named actor are attributed to "unknown".
+ */
+async function readExclusionsBody(request: Request): Promise<ExclusionsBody | null> {
+  try {
+    const body = await request.json();
+    const entries = parseExclusionRules(body?.exclusions);
+    if (!entries) return null;
+    const actor = typeof body.actor === "string" ? body.actor.trim().slice(0, MAX_ACTOR_LENGTH) : "";
+    return { entries, actor: actor || "unknown", restore: body.restore === true };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply a change to the shared exclusions file and respond with the new list.
+ */
+async function updateExclusions(
+  request: Request,
+  update: (body: ExclusionsBody) => ExclusionsData
+): Promise<NextResponse> {
+  const body = await readExclusionsBody(request);
+  if (!body) {
+    return NextResponse.json(
+      { error: "Expected { exclusions: [{ user, effect?, program?, state?, visitType?, reason?, note?, startDate?, endDate? }], actor?, restore? }" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(update(body));
+  } catch (error) {
+    console.error("Error saving exclusions:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save exclusions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * List the shared exclusions.
+ */
+export async function GET() {
+  return NextResponse.json(loadExclusions());
+}
+
+/**
+ * Add exclusions. Entries that already exist are ignored.
+ * With `restore`, entries keep the createdBy/createdAt they were removed with.
+ */
+export async function POST(request: Request) {
+  return updateExclusions(request, ({ entries, actor, restore }) => addExclusionRules(entries, actor, { restore }));
+}
+
+/**
+ * Remove exclusions that exactly match the given entries.
+ */
+export async function DELETE(request: Request) {
+  return updateExclusions(request, ({ entries, actor }) => removeExclusionRules(entries, actor));
+}
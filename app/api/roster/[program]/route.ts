@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { loadProviderDirectory, replaceProgramCsv } from "@/lib/data";
+import { getFatalParseProblems, parseResourcePoolCsvWithReport } from "@/lib/parseResourcePoolCsv";
+import { normalizeProgram } from "@/lib/route";
+
+export const dynamic = "force-dynamic";
+
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+interface RouteContext {
+  params: Promise<{
+    program: string;
+  }>;
+}
+
+/**
+ * Replace a program's roster with the CSV in the request body.
+ * The sheet is parsed first; if it has fatal problems they are returned
+ * with status 422 and the current file is left untouched.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const program = normalizeProgram((await params).program);
+  if (!program) {
+    return NextResponse.json({ error: "Unknown program" }, { status: 404 });
+  }
+
+  const content = await request.text();
+  if (!content.trim()) {
+    return NextResponse.json({ error: "Expected the CSV file as the request body" }, { status: 400 });
+  }
+  if (Buffer.byteLength(content, "utf-8") > MAX_CSV_BYTES) {
+    return NextResponse.json({ error: "The CSV file is larger than 5 MB" }, { status: 413 });
+  }
+
+  const { report } = parseResourcePoolCsvWithReport(content, program, loadProviderDirectory());
+  const problems = getFatalParseProblems(report);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: `The ${program} sheet cannot be used`, problems },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const snapshot = replaceProgramCsv(program, content);
+    return NextResponse.json({ program, poolCount: report.poolCount, snapshot });
+  } catch (error) {
+    console.error(`Error saving ${program} roster:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save the roster" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { listRosterSnapshots } from "@/lib/data";
+import { SNAPSHOT_COOKIE } from "@/lib/snapshotSelection";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * List saved roster snapshots, newest first.
+ */
+export async function GET() {
+  return NextResponse.json(listRosterSnapshots());
+}
+
+/**
+ * Choose the snapshot pages are rendered from.
+ * `{ id }` views a saved snapshot; `{ id: null }` returns to the current roster.
+ */
+export async function POST(request: Request) {
+  const id = await request.json().then((body) => body?.id, () => undefined);
+  if (id !== null && typeof id !== "string") {
+    return NextResponse.json({ error: "Expected { id: string | null }" }, { status: 400 });
+  }
+
+  const response = NextResponse.json({ id });
+  if (id === null) {
+    response.cookies.delete(SNAPSHOT_COOKIE);
+    return response;
+  }
+  if (!listRosterSnapshots().some((snapshot) => snapshot.id === id)) {
+    return NextResponse.json({ error: `Unknown snapshot ${id}` }, { status: 404 });
+  }
+  response.cookies.set(SNAPSHOT_COOKIE, id, { path: "/", sameSite: "lax", httpOnly: true });
+  return response;
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SearchBar } from "@/components/SearchBar";
+import { ExclusionAction, ExclusionAuditEntry, ExclusionReason, Program } from "@/lib/types";
+import { exclusionReasonLabels, ruleEffect, ruleScopeLabel } from "@/lib/exclusions";
+import { ArrowLeft, History, UserMinus, UserPlus } from "lucide-react";
+
+interface AuditLogClientProps {
+  entries: ExclusionAuditEntry[];
+}
+
+type ProgramFilter = "all" | Program;
+type ActionFilter = "all" | ExclusionAction;
+type ReasonFilter = "all" | "none" | ExclusionReason;
+
+export function AuditLogClient({ entries }: AuditLogClientProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [programFilter, setProgramFilter] = useState<ProgramFilter>("all");
+  const [actionFilter, setActionFilter] = useState<ActionFilter>("all");
+  const [reasonFilter, setReasonFilter] = useState<ReasonFilter>("all");
+  const [actorFilter, setActorFilter] = useState<string>("all");
+
+  const actors = useMemo(() => {
+    return [...new Set(entries.map((e) => e.actor))].sort();
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+
+    return entries.filter((entry) => {
+      const { exclusion } = entry;
+      if (query) {
+        const haystack = [exclusion.user, exclusion.state || "", exclusion.note || ""].join(" ").toLowerCase();
+        if (!haystack.includes(query)) return false;
+      }
+      if (programFilter !== "all" && exclusion.program !== programFilter) return false;
+      if (actionFilter !== "all" && entry.action !== actionFilter) return false;
+      if (reasonFilter === "none" && exclusion.reason) return false;
+      if (reasonFilter !== "all" && reasonFilter !== "none" && exclusion.reason !== reasonFilter) return false;
+      if (actorFilter !== "all" && entry.actor !== actorFilter) return false;
+      return true;
+    });
+  }, [entries, searchQuery, programFilter, actionFilter, reasonFilter, actorFilter]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-10 bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 text-white shadow-lg">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="gap-2 text-white hover:bg-white/20">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                <div className="p-2 bg-white/20 rounded-lg">
+                  <History className="h-6 w-6" />
+                </div>
+                Exclusion Audit Log
+              </h1>
+              <p className="text-sm text-white/80 mt-1">
+                Every exclusion added or removed, newest first
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Filters */}
+        <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-4">
+            <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-end">
+              <div className="w-full sm:w-80">
+                <SearchBar
+                  value={searchQuery}
+                  onChange={setSearchQuery}
+                  placeholder="Search providers, states or notes..."
+                />
+              </div>
+              <div className="flex flex-wrap gap-4">
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">Program</Label>
+                  <Select value={programFilter} onValueChange={(v) => setProgramFilter(v as ProgramFilter)}>
+                    <SelectTrigger className="w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All</SelectItem>
+                      <SelectItem value="HRT">HRT</SelectItem>
+                      <SelectItem value="TRT">TRT</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">Action</Label>
+                  <Select value={actionFilter} onValueChange={(v) => setActionFilter(v as ActionFilter)}>
+                    <SelectTrigger className="w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All</SelectItem>
+                      <SelectItem value="add">Rule added</SelectItem>
+                      <SelectItem value="remove">Rule removed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">Reason</Label>
+                  <Select value={reasonFilter} onValueChange={(v) => setReasonFilter(v as ReasonFilter)}>
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All reasons</SelectItem>
+                      {(Object.keys(exclusionReasonLabels) as ExclusionReason[]).map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {exclusionReasonLabels[reason]}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="none">Not recorded</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">Changed by</Label>
+                  <Select value={actorFilter} onValueChange={setActorFilter}>
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Anyone</SelectItem>
+                      {actors.map((actor) => (
+                        <SelectItem key={actor} value={actor}>
+                          {actor}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Log */}
+        <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader className="bg-gradient-to-r from-violet-500 to-purple-500 text-white rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <History className="h-5 w-5" />
+              Changes ({filteredEntries.length} of {entries.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-4">
+            {filteredEntries.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                {entries.length === 0 ? "No exclusion changes have been recorded yet." : "No changes match your filters."}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Program</TableHead>
+                    <TableHead>State</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEntries.map((entry, index) => (
+                    <TableRow key={`${entry.at}-${entry.exclusion.user}-${entry.exclusion.state}-${index}`}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {new Date(entry.at).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {ruleEffect(entry.exclusion) === "exclude" ? (
+                          <Badge variant="secondary" className="gap-1 bg-amber-100 text-amber-800">
+                            <UserMinus className="h-3 w-3" />
+                            {entry.action === "add" ? "Excluded" : "Exclusion removed"}
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary" className="gap-1 bg-emerald-100 text-emerald-800">
+                            <UserPlus className="h-3 w-3" />
+                            {entry.action === "add" ? "Included" : "Include override removed"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-medium">{entry.exclusion.user}</TableCell>
+                      <TableCell>
+                        {entry.exclusion.program ? (
+                          <Badge className={entry.exclusion.program === "HRT" ? "bg-emerald-600" : "bg-blue-600"}>
+                            {entry.exclusion.program}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">All</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {ruleScopeLabel(entry.exclusion)}
+                        {entry.exclusion.visitType && (
+                          <span className="text-xs text-muted-foreground ml-1">({entry.exclusion.visitType})</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.exclusion.reason
+                          ? exclusionReasonLabels[entry.exclusion.reason]
+                          : <span className="text-muted-foreground">Not recorded</span>}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-[280px]">{entry.exclusion.note}</TableCell>
+                      <TableCell className="text-sm">{entry.actor}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t mt-8 py-4 bg-white/50">
+        <div className="container mx-auto px-4 text-center text-sm text-muted-foreground">
+          Audit entries are appended to data/exclusions-audit.jsonl and never rewritten
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { loadExclusionAuditLog } from "@/lib/data";
+import { AuditLogClient } from "./AuditLogClient";
+
+// The log grows while the app runs, so read it on every request
+export const dynamic = "force-dynamic";
+
+export default function AuditLogPage() {
+  const entries = loadExclusionAuditLog();
+
+  return <AuditLogClient entries={entries} />;
+}
@@ -0,0 +1,325 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RosterDiffTable } from "@/components/RosterDiffTable";
+import { Program, ProviderDirectory, ResourcePool, RosterSnapshotInfo } from "@/lib/types";
+import { diffRosters } from "@/lib/rosterDiff";
+import { getFatalParseProblems, parseResourcePoolCsvWithReport } from "@/lib/parseResourcePoolCsv";
+import { exportRosterChangesCsv } from "@/lib/csvExport";
+import { getChangesRoute } from "@/lib/route";
+import { AlertTriangle, ArrowLeft, Download, GitCompare, Layers, MapPin, UserMinus, UserPlus, X } from "lucide-react";
+
+interface RosterPools {
+  hrt: ResourcePool[];
+  trt: ResourcePool[];
+}
+
+interface UploadedRoster {
+  program: Program;
+  filename: string;
+  pools: ResourcePool[];
+  problems: string[]; // Fatal parse problems; the diff may be misleading
+}
+
+interface ChangesClientProps {
+  snapshots: RosterSnapshotInfo[]; // Newest first
+  fromId: string;
+  toId: string;
+  before: RosterPools;
+  after: RosterPools;
+  providers: ProviderDirectory; // For resolving names in uploaded files
+}
+
+export function ChangesClient({
+  snapshots,
+  fromId,
+  toId,
+  before,
+  after,
+  providers,
+}: ChangesClientProps) {
+  const router = useRouter();
+  const [uploadProgram, setUploadProgram] = useState<Program>("HRT");
+  const [uploaded, setUploaded] = useState<UploadedRoster | null>(null);
+
+  // An uploaded file replaces its program's roster; the other program is left as it was
+  const diff = useMemo(() => {
+    const newer = !uploaded
+      ? after
+      : uploaded.program === "HRT"
+        ? { hrt: uploaded.pools, trt: before.trt }
+        : { hrt: before.hrt, trt: uploaded.pools };
+    return diffRosters([...before.hrt, ...before.trt], [...newer.hrt, ...newer.trt]);
+  }, [before, after, uploaded]);
+
+  const snapshotLabel = (snapshot: RosterSnapshotInfo) =>
+    `${snapshot === snapshots[0] ? "Current roster" : "Roster"} · ${new Date(snapshot.createdAt).toLocaleString()}`;
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const program = uploadProgram;
+    file.text().then((content) => {
+      const { pools, report } = parseResourcePoolCsvWithReport(content, program, providers);
+      setUploaded({ program, filename: file.name, pools, problems: getFatalParseProblems(report) });
+    });
+  };
+
+  const handleExport = () => {
+    const newer = uploaded ? uploaded.filename.replace(/\.csv$/i, "") : toId;
+    exportRosterChangesCsv(diff, `roster-changes-${fromId}-${newer}.csv`);
+  };
+
+  const addedStates = diff.states.filter((s) => s.kind === "added");
+  const droppedStates = diff.states.filter((s) => s.kind === "dropped");
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-10 bg-gradient-to-r from-violet-600 via-purple-600 to-indigo-600 text-white shadow-lg">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="gap-2 text-white hover:bg-white/20">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                <div className="p-2 bg-white/20 rounded-lg">
+                  <GitCompare className="h-6 w-6" />
+                </div>
+                Roster Changes
+              </h1>
+              <p className="text-sm text-white/80 mt-1">
+                Who was added to or removed from each pool between two versions of the sheets
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Versions to compare */}
+        <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-4 space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Before</Label>
+                <Select
+                  value={fromId}
+                  onValueChange={(id) => router.push(getChangesRoute(id, toId))}
+                  disabled={snapshots.length === 0}
+                >
+                  <SelectTrigger className="w-[260px]">
+                    <SelectValue placeholder="Current roster" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {snapshots.map((snapshot) => (
+                      <SelectItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">After</Label>
+                {uploaded ? (
+                  <div className="flex items-center gap-1 h-9">
+                    <Badge variant="secondary" className="gap-1 bg-violet-100 text-violet-800">
+                      {uploaded.filename} ({uploaded.program})
+                      <button type="button" aria-label="Clear uploaded file" onClick={() => setUploaded(null)}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  </div>
+                ) : (
+                  <Select
+                    value={toId}
+                    onValueChange={(id) => router.push(getChangesRoute(fromId, id))}
+                    disabled={snapshots.length === 0}
+                  >
+                    <SelectTrigger className="w-[260px]">
+                      <SelectValue placeholder="Current roster" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {snapshots.map((snapshot) => (
+                        <SelectItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="upload-file" className="text-xs text-muted-foreground">Or compare a CSV file</Label>
+                <div className="flex items-center gap-2">
+                  <Select value={uploadProgram} onValueChange={(v) => setUploadProgram(v as Program)}>
+                    <SelectTrigger className="w-[90px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="HRT">HRT</SelectItem>
+                      <SelectItem value="TRT">TRT</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    id="upload-file"
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="w-[260px]"
+                    onChange={(e) => {
+                      handleFile(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleExport}
+                disabled={diff.pools.length === 0 && diff.states.length === 0}
+                className="gap-2 ml-auto"
+              >
+                <Download className="h-4 w-4" />
+                Download Change List
+              </Button>
+            </div>
+            {snapshots.length < 2 && !uploaded && (
+              <p className="text-sm text-muted-foreground">
+                Only one version of the roster has been saved so far. Upload a CSV file to see what it would change.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Problems with the uploaded file */}
+        {uploaded && uploaded.problems.length > 0 && (
+          <Card className="border-red-300 bg-red-50 shadow-md">
+            <CardContent className="pt-4">
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="h-5 w-5 text-red-600 shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-semibold text-red-800">{uploaded.filename} could not be fully read</p>
+                  <ul className="text-sm text-red-700 list-disc ml-5 mt-1">
+                    {uploaded.problems.map((problem) => (
+                      <li key={problem}>{problem}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Summary Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card className="bg-gradient-to-br from-emerald-500 to-green-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <UserPlus className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{diff.addedCount}</p>
+                  <p className="text-xs text-white/80">Assignments Added</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-orange-500 to-red-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <UserMinus className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{diff.removedCount}</p>
+                  <p className="text-xs text-white/80">Assignments Removed</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-violet-500 to-purple-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <Layers className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{diff.pools.length}</p>
+                  <p className="text-xs text-white/80">Pools Changed</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-amber-500 to-orange-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <MapPin className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{addedStates.length}/{droppedStates.length}</p>
+                  <p className="text-xs text-white/80">States Added/Dropped</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* States added or dropped */}
+        {diff.states.length > 0 && (
+          <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+            <CardHeader className="bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-t-lg">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <MapPin className="h-5 w-5" />
+                States Added or Dropped
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-4 space-y-3">
+              {[
+                { label: "Added", states: addedStates, className: "bg-emerald-100 text-emerald-800" },
+                { label: "Dropped", states: droppedStates, className: "bg-red-100 text-red-800" },
+              ].filter((group) => group.states.length > 0).map((group) => (
+                <div key={group.label} className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium w-20">{group.label}</span>
+                  {group.states.map((s) => (
+                    <Badge key={`${s.program}-${s.state}`} variant="secondary" className={group.className}>
+                      {s.program} {s.state}
+                    </Badge>
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Pool changes */}
+        <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader className="bg-gradient-to-r from-violet-500 to-purple-500 text-white rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Layers className="h-5 w-5" />
+              Pool Changes ({diff.pools.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-4">
+            <RosterDiffTable pools={diff.pools} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { getAllProgramData, listRosterSnapshots, loadRosterSnapshot } from "@/lib/data";
+import { ChangesClient } from "./ChangesClient";
+
+interface PageProps {
+  searchParams: Promise<{
+    from?: string; // Snapshot ID of the older roster
+    to?: string; // Snapshot ID of the newer roster
+  }>;
+}
+
+export default async function ChangesPage({ searchParams }: PageProps) {
+  const { from, to } = await searchParams;
+  // Loading the current roster records it as a snapshot if it changed
+  const current = getAllProgramData();
+  const snapshots = listRosterSnapshots();
+
+  // By default, compare the newest snapshot with the one before it
+  const toId = to || snapshots[0]?.id || "";
+  const fromId = from || snapshots[1]?.id || toId;
+  const after = loadRosterSnapshot(toId) || current;
+  const before = loadRosterSnapshot(fromId) || current;
+
+  return (
+    <ChangesClient
+      snapshots={snapshots}
+      fromId={fromId}
+      toId={toId}
+      before={{ hrt: before.hrt, trt: before.trt }}
+      after={{ hrt: after.hrt, trt: after.trt }}
+      providers={current.providers}
+    />
+  );
+}
@@ -24,8 +24,12 @@ import {
 } from "@/components/ui/select";
 import { SearchBar } from "@/components/SearchBar";
 import { ExportButton } from "@/components/ExportButton";
+import { TierFilterSelect } from "@/components/TierFilterSelect";
+import { PoolAnnotationBadges } from "@/components/PoolAnnotationBadges";
 import { useExclusions } from "@/lib/useExclusions";
-import { ResourcePool, ExclusionsData } from "@/lib/types";
+import { ResourcePool, ExclusionsData, TierFilter, PoolFlag } from "@/lib/types";
+import { filterMembersByTier, mergePoolAnnotations } from "@/lib/parseResourcePoolCsv";
+import { getProviderRoute } from "@/lib/route";
 import { 
   ArrowLeft, 
   Users, 
@@ -45,6 +49,7 @@ interface CombinedClientProps {
 
 type ViewMode = "by-user" | "by-state";
 type ProgramFilter = "all" | "both" | "hrt-only" | "trt-only";
+type AnnotationFilter = "all" | "any" | PoolFlag;
 
 export function CombinedClient({
   hrtPools,
@@ -55,8 +60,10 @@ export function CombinedClient({
   const [viewMode, setViewMode] = useState<ViewMode>("by-user");
   const [programFilter, setProgramFilter] = useState<ProgramFilter>("all");
   const [stateFilter, setStateFilter] = useState<string>("all");
+  const [tierFilter, setTierFilter] = useState<TierFilter>("primary");
+  const [annotationFilter, setAnnotationFilter] = useState<AnnotationFilter>("all");
 
-  const { isExcluded, showExcluded, setShowExcluded, isLoaded } = useExclusions(serverExclusions);
+  const { getPoolPartition, showExcluded, setShowExcluded, isLoaded } = useExclusions(serverExclusions);
 
   // Get all unique states from both programs
   const allStates = useMemo(() => {
@@ -66,9 +73,33 @@ export function CombinedClient({
     return Array.from(states).sort();
   }, [hrtPools, trtPools]);
 
+  // Sheet annotations per state, merged across both programs
+  const stateAnnotations = useMemo(() => {
+    return new Map(
+      allStates.map((state) => [
+        state,
+        mergePoolAnnotations([...hrtPools, ...trtPools].filter((p) => p.state === state)),
+      ])
+    );
+  }, [allStates, hrtPools, trtPools]);
+
+  // States matching the annotation filter (null = no filter)
+  const annotatedStates = useMemo(() => {
+    if (annotationFilter === "all") return null;
+    return new Set(
+      allStates.filter((state) => {
+        const annotations = stateAnnotations.get(state) || [];
+        if (annotationFilter === "any") return annotations.length > 0;
+        return annotations.some((a) => a.flag === annotationFilter);
+      })
+    );
+  }, [allStates, stateAnnotations, annotationFilter]);
+
   // Combined user data
   const combinedUsers = useMemo(() => {
+    // Keyed by provider ID so alias spellings collapse into one row
     const userMap = new Map<string, {
+      providerId: string;
       name: string;
       hrtStates: string[];
       trtStates: string[];
@@ -78,42 +109,46 @@ export function CombinedClient({
 
     // Process HRT
     hrtPools.forEach((pool) => {
-      pool.users.forEach((user) => {
-        const existing = userMap.get(user) || {
-          name: user,
+      const { excluded } = getPoolPartition(pool);
+      filterMembersByTier(pool.members, tierFilter).forEach((member) => {
+        const existing = userMap.get(member.providerId) || {
+          providerId: member.providerId,
+          name: member.name,
           hrtStates: [],
           trtStates: [],
           hrtActiveStates: [],
           trtActiveStates: [],
         };
         existing.hrtStates.push(pool.state);
-        if (!isExcluded(user, pool.state, "HRT")) {
+        if (!excluded.includes(member)) {
           existing.hrtActiveStates.push(pool.state);
         }
-        userMap.set(user, existing);
+        userMap.set(member.providerId, existing);
       });
     });
 
     // Process TRT
     trtPools.forEach((pool) => {
-      pool.users.forEach((user) => {
-        const existing = userMap.get(user) || {
-          name: user,
+      const { excluded } = getPoolPartition(pool);
+      filterMembersByTier(pool.members, tierFilter).forEach((member) => {
+        const existing = userMap.get(member.providerId) || {
+          providerId: member.providerId,
+          name: member.name,
           hrtStates: [],
           trtStates: [],
           hrtActiveStates: [],
           trtActiveStates: [],
         };
         existing.trtStates.push(pool.state);
-        if (!isExcluded(user, pool.state, "TRT")) {
+        if (!excluded.includes(member)) {
           existing.trtActiveStates.push(pool.state);
         }
-        userMap.set(user, existing);
+        userMap.set(member.providerId, existing);
       });
     });
 
     return Array.from(userMap.values());
-  }, [hrtPools, trtPools, isExcluded]);
+  }, [hrtPools, trtPools, getPoolPartition, tierFilter]);
 
   // Combined state data
   const combinedStates = useMemo(() => {
@@ -121,24 +156,24 @@ export function CombinedClient({
       const hrtPool = hrtPools.find((p) => p.state === state);
       const trtPool = trtPools.find((p) => p.state === state);
 
-      const hrtUsers = hrtPool?.users || [];
-      const trtUsers = trtPool?.users || [];
-      const hrtActiveUsers = hrtUsers.filter((u) => !isExcluded(u, state, "HRT"));
-      const trtActiveUsers = trtUsers.filter((u) => !isExcluded(u, state, "TRT"));
+      const hrtActiveMembers = filterMembersByTier(hrtPool ? getPoolPartition(hrtPool).active : [], tierFilter);
+      const trtActiveMembers = filterMembersByTier(trtPool ? getPoolPartition(trtPool).active : [], tierFilter);
+      const hrtActiveIds = new Set(hrtActiveMembers.map((m) => m.providerId));
+      const trtActiveIds = new Set(trtActiveMembers.map((m) => m.providerId));
 
-      // Users in both programs for this state
-      const bothUsers = hrtActiveUsers.filter((u) => trtActiveUsers.includes(u));
+      // Providers in both programs for this state
+      const bothUsers = hrtActiveMembers.filter((m) => trtActiveIds.has(m.providerId));
 
       return {
         state,
-        hrtUsers: hrtActiveUsers,
-        trtUsers: trtActiveUsers,
+        hrtUsers: hrtActiveMembers,
+        trtUsers: trtActiveMembers,
         bothUsers,
-        hrtOnly: hrtActiveUsers.filter((u) => !trtActiveUsers.includes(u)),
-        trtOnly: trtActiveUsers.filter((u) => !hrtActiveUsers.includes(u)),
+        hrtOnly: hrtActiveMembers.filter((m) => !trtActiveIds.has(m.providerId)),
+        trtOnly: trtActiveMembers.filter((m) => !hrtActiveIds.has(m.providerId)),
       };
     });
-  }, [allStates, hrtPools, trtPools, isExcluded]);
+  }, [allStates, hrtPools, trtPools, getPoolPartition, tierFilter]);
 
   // Filtered users
   const filteredUsers = useMemo(() => {
@@ -166,6 +201,14 @@ export function CombinedClient({
         if (programFilter === "hrt-only" && !(inHrt && !inTrt)) return false;
         if (programFilter === "trt-only" && !(!inHrt && inTrt)) return false;
 
+        // Annotation filter - provider must cover at least one matching state
+        if (annotatedStates) {
+          const states = showExcluded
+            ? [...user.hrtStates, ...user.trtStates]
+            : [...user.hrtActiveStates, ...user.trtActiveStates];
+          if (!states.some((s) => annotatedStates.has(s))) return false;
+        }
+
         // State filter
         if (stateFilter !== "all") {
           const inHrtState = user.hrtActiveStates.includes(stateFilter) || (showExcluded && user.hrtStates.includes(stateFilter));
@@ -176,7 +219,7 @@ export function CombinedClient({
         return true;
       })
       .sort((a, b) => a.name.localeCompare(b.name));
-  }, [combinedUsers, searchQuery, programFilter, stateFilter, showExcluded]);
+  }, [combinedUsers, searchQuery, programFilter, stateFilter, showExcluded, annotatedStates]);
 
   // Filtered states
   const filteredStates = useMemo(() => {
@@ -186,9 +229,12 @@ export function CombinedClient({
       if (query && !state.state.toLowerCase().includes(query)) {
         return false;
       }
+      if (annotatedStates && !annotatedStates.has(state.state)) {
+        return false;
+      }
       return true;
     });
-  }, [combinedStates, searchQuery]);
+  }, [combinedStates, searchQuery, annotatedStates]);
 
   // Stats
   const stats = useMemo(() => {
@@ -350,6 +396,22 @@ export function CombinedClient({
                       </SelectContent>
                     </Select>
                   </div>
+                  <TierFilterSelect value={tierFilter} onChange={setTierFilter} />
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Annotations</Label>
+                    <Select value={annotationFilter} onValueChange={(v) => setAnnotationFilter(v as AnnotationFilter)}>
+                      <SelectTrigger className="w-[170px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All States</SelectItem>
+                        <SelectItem value="no-marketing">Marketing Disabled</SelectItem>
+                        <SelectItem value="asterisk">Asterisk (*)</SelectItem>
+                        <SelectItem value="note">Other Notes</SelectItem>
+                        <SelectItem value="any">Any Annotation</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                   {viewMode === "by-user" && (
                     <>
                       <div className="space-y-1">
@@ -440,8 +502,12 @@ export function CombinedClient({
                       const inBoth = inHrt && inTrt;
 
                       return (
-                        <TableRow key={user.name} className={inBoth ? "bg-amber-50/50" : ""}>
-                          <TableCell className="font-medium">{user.name}</TableCell>
+                        <TableRow key={user.providerId} className={inBoth ? "bg-amber-50/50" : ""}>
+                          <TableCell className="font-medium">
+                            <Link href={getProviderRoute(user.providerId)} className="hover:underline">
+                              {user.name}
+                            </Link>
+                          </TableCell>
                           <TableCell className="text-center">
                             {user.hrtActiveStates.length > 0 ? (
                               <Badge className="bg-emerald-100 text-emerald-700 hover:bg-emerald-200">
@@ -498,6 +564,7 @@ export function CombinedClient({
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="pt-4 space-y-3">
+                  <PoolAnnotationBadges annotations={stateAnnotations.get(state.state) || []} />
                   <div className="grid grid-cols-2 gap-3">
                     <div className="bg-emerald-50 rounded-lg p-3 border border-emerald-200">
                       <div className="flex items-center gap-2 mb-1">
@@ -521,9 +588,9 @@ export function CombinedClient({
                         <span className="font-medium text-amber-800">In Both ({state.bothUsers.length})</span>
                       </div>
                       <div className="flex flex-wrap gap-1">
-                        {state.bothUsers.slice(0, 5).map((user) => (
-                          <Badge key={user} variant="secondary" className="text-xs bg-amber-100 text-amber-700">
-                            {user}
+                        {state.bothUsers.slice(0, 5).map((member) => (
+                          <Badge key={member.providerId} variant="secondary" className="text-xs bg-amber-100 text-amber-700">
+                            {member.name}
                           </Badge>
                         ))}
                         {state.bothUsers.length > 5 && (
@@ -1,8 +1,10 @@
 import { getAllProgramData } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
 import { CombinedClient } from "./CombinedClient";
 
-export default function CombinedPage() {
-  const { hrt, trt, exclusions } = getAllProgramData();
+export default async function CombinedPage() {
+  const viewedSnapshot = await getViewedSnapshot();
+  const { hrt, trt, exclusions } = getAllProgramData(viewedSnapshot?.id);
 
   return (
     <CombinedClient
@@ -0,0 +1,297 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AsOfDateInput } from "@/components/AsOfDateInput";
+import { ExclusionHistoryControls } from "@/components/ExclusionHistoryControls";
+import { useExclusions } from "@/lib/useExclusions";
+import { CoverageRule, CoverageViolation, ExclusionsData, ResourcePool } from "@/lib/types";
+import { coverageRuleScopeLabel, coverageRuleTypeLabels, evaluateCoverageRules } from "@/lib/coverage";
+import { getProviderRoute, getStateRoute } from "@/lib/route";
+import { AlertTriangle, ArrowLeft, CheckCircle2, ListChecks, MapPin, ShieldAlert, Users } from "lucide-react";
+
+interface CoverageClientProps {
+  hrtPools: ResourcePool[];
+  trtPools: ResourcePool[];
+  serverExclusions: ExclusionsData;
+  rules: CoverageRule[];
+  ruleErrors: string[]; // Entries of coverage-rules.json that were skipped
+}
+
+export function CoverageClient({
+  hrtPools,
+  trtPools,
+  serverExclusions,
+  rules,
+  ruleErrors,
+}: CoverageClientProps) {
+  const {
+    getPoolPartition,
+    asOf,
+    setAsOf,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    recentChanges,
+    isLoaded,
+  } = useExclusions(serverExclusions);
+
+  const violations = useMemo(
+    () => evaluateCoverageRules(rules, [...hrtPools, ...trtPools], getPoolPartition),
+    [rules, hrtPools, trtPools, getPoolPartition]
+  );
+
+  const violationsByRule = useMemo(() => {
+    const byRule = new Map<string, CoverageViolation[]>();
+    violations.forEach((v) => byRule.set(v.rule.id, [...(byRule.get(v.rule.id) || []), v]));
+    return byRule;
+  }, [violations]);
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 flex items-center justify-center">
+        <div className="text-muted-foreground animate-pulse">Loading...</div>
+      </div>
+    );
+  }
+
+  const affectedStates = new Set(violations.filter((v) => v.state).map((v) => `${v.program}|${v.state}`)).size;
+  const overloadedProviders = new Set(violations.filter((v) => v.providerId).map((v) => v.providerId)).size;
+  const failingRules = violationsByRule.size;
+
+  const renderViolations = (rule: CoverageRule, rows: CoverageViolation[]) => {
+    if (rows.length === 0) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-6 text-emerald-700">
+          <CheckCircle2 className="h-4 w-4" />
+          No violations
+        </div>
+      );
+    }
+
+    if (rule.type === "max-states") {
+      return (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Provider</TableHead>
+              <TableHead className="text-right">Active States</TableHead>
+              <TableHead className="text-right">Limit</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...rows].sort((a, b) => b.actual - a.actual).map((v) => (
+              <TableRow key={v.providerId}>
+                <TableCell className="font-medium">
+                  <Link href={getProviderRoute(v.providerId!)} className="hover:underline">
+                    {v.providerName}
+                  </Link>
+                </TableCell>
+                <TableCell className="text-right font-semibold text-red-700">{v.actual}</TableCell>
+                <TableCell className="text-right">{v.expected}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      );
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Program</TableHead>
+            <TableHead>State</TableHead>
+            <TableHead>Visit Type</TableHead>
+            <TableHead className="text-right">Active</TableHead>
+            <TableHead className="text-right">Needed</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((v) => (
+            <TableRow key={`${v.program}-${v.state}-${v.visitType}`}>
+              <TableCell>
+                <Badge className={v.program === "HRT" ? "bg-emerald-600" : "bg-blue-600"}>{v.program}</Badge>
+              </TableCell>
+              <TableCell className="font-medium">
+                <Link href={getStateRoute(v.program!, v.state!)} className="hover:underline">
+                  {v.state}
+                </Link>
+              </TableCell>
+              <TableCell className="text-sm">{v.visitType || "Any"}</TableCell>
+              <TableCell className="text-right font-semibold text-red-700">{v.actual}</TableCell>
+              <TableCell className="text-right">{v.expected}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-10 bg-gradient-to-r from-violet-600 via-purple-600 to-indigo-600 text-white shadow-lg">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="gap-2 text-white hover:bg-white/20">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                <div className="p-2 bg-white/20 rounded-lg">
+                  <ShieldAlert className="h-6 w-6" />
+                </div>
+                Coverage Gaps
+              </h1>
+              <p className="text-sm text-white/80 mt-1">
+                Staffing rules from coverage-rules.json checked against the active roster
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Controls */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <ExclusionHistoryControls
+            recentChanges={recentChanges}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            onUndo={undo}
+            onRedo={redo}
+          />
+          <AsOfDateInput value={asOf} onChange={setAsOf} />
+        </div>
+
+        {/* Rules that could not be read */}
+        {ruleErrors.length > 0 && (
+          <Card className="border-red-300 bg-red-50 shadow-md">
+            <CardContent className="pt-4">
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="h-5 w-5 text-red-600 shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-semibold text-red-800">Some coverage rules were skipped</p>
+                  <ul className="text-sm text-red-700 list-disc ml-5 mt-1">
+                    {ruleErrors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Summary Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card className="bg-gradient-to-br from-violet-500 to-purple-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <ListChecks className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{rules.length - failingRules}/{rules.length}</p>
+                  <p className="text-xs text-white/80">Rules Passing</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-orange-500 to-red-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <AlertTriangle className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{violations.length}</p>
+                  <p className="text-xs text-white/80">Violations</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-amber-500 to-orange-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <MapPin className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{affectedStates}</p>
+                  <p className="text-xs text-white/80">States With Gaps</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-blue-500 to-cyan-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <Users className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{overloadedProviders}</p>
+                  <p className="text-xs text-white/80">Providers Over Limit</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {rules.length === 0 && (
+          <div className="text-center py-12 text-muted-foreground bg-white/50 rounded-xl">
+            No coverage rules are configured. Add them to /data/coverage-rules.json.
+          </div>
+        )}
+
+        {/* One card per rule */}
+        {rules.map((rule) => {
+          const rows = violationsByRule.get(rule.id) || [];
+          return (
+            <Card key={rule.id} className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+              <CardHeader
+                className={`${
+                  rows.length > 0 ? "bg-gradient-to-r from-red-500 to-rose-500" : "bg-gradient-to-r from-emerald-500 to-green-500"
+                } text-white rounded-t-lg`}
+              >
+                <CardTitle className="flex items-center justify-between gap-2 text-lg">
+                  <span className="flex items-center gap-2">
+                    {rows.length > 0 ? <AlertTriangle className="h-5 w-5" /> : <CheckCircle2 className="h-5 w-5" />}
+                    {coverageRuleTypeLabels[rule.type]}
+                    {rule.type === "min-active" && ` (${rule.min})`}
+                    {rule.type === "max-states" && ` (${rule.max})`}
+                  </span>
+                  <Badge variant="secondary" className="bg-white/20 text-white">
+                    {rows.length} violation{rows.length === 1 ? "" : "s"}
+                  </Badge>
+                </CardTitle>
+                <p className="text-sm text-white/80">
+                  {coverageRuleScopeLabel(rule)}
+                  {rule.description && ` · ${rule.description}`}
+                </p>
+              </CardHeader>
+              <CardContent className="pt-4">{renderViolations(rule, rows)}</CardContent>
+            </Card>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
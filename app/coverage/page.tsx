@@ -0,0 +1,19 @@
+import { getAllProgramData, loadCoverageRules } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
+import { CoverageClient } from "./CoverageClient";
+
+export default async function CoveragePage() {
+  const viewedSnapshot = await getViewedSnapshot();
+  const { hrt, trt, exclusions } = getAllProgramData(viewedSnapshot?.id);
+  const { rules, errors } = loadCoverageRules();
+
+  return (
+    <CoverageClient
+      hrtPools={hrt}
+      trtPools={trt}
+      serverExclusions={exclusions}
+      rules={rules}
+      ruleErrors={errors}
+    />
+  );
+}
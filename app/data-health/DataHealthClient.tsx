@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ProgramTabs } from "@/components/ProgramTabs";
+import { ParseDiagnostics } from "@/components/ParseDiagnostics";
+import { ParseReport, Program, LoadError } from "@/lib/types";
+import {
+  ArrowLeft,
+  Activity,
+  AlertTriangle,
+  CheckCircle2,
+  FileWarning,
+  XCircle,
+} from "lucide-react";
+
+interface DataHealthClientProps {
+  hrtReport: ParseReport;
+  trtReport: ParseReport;
+  loadErrors: LoadError[];
+}
+
+export function DataHealthClient({
+  hrtReport,
+  trtReport,
+  loadErrors,
+}: DataHealthClientProps) {
+  const [activeProgram, setActiveProgram] = useState<Program>("HRT");
+
+  const report = activeProgram === "HRT" ? hrtReport : trtReport;
+
+  // Problems that leave a program's dashboard empty or wrong
+  const programStatus = (r: ParseReport) => {
+    const fatal = r.loadErrors.length > 0 || r.headerAnomalies.some((a) => a.fatal) || r.poolCount === 0;
+    const warnings = r.parseErrors.length + r.headerAnomalies.length + r.unmatchedProviders.length;
+    return { fatal, warnings };
+  };
+
+  const isHRT = activeProgram === "HRT";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      {/* Header */}
+      <header className={`border-b sticky top-0 z-10 ${isHRT ? 'bg-gradient-to-r from-emerald-600 to-teal-600' : 'bg-gradient-to-r from-blue-600 to-indigo-600'} text-white shadow-lg`}>
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="gap-2 text-white hover:bg-white/20">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                  <div className="p-2 bg-white/20 rounded-lg">
+                    <Activity className="h-6 w-6" />
+                  </div>
+                  Data Health
+                </h1>
+                <p className="text-sm text-white/80 mt-1">
+                  What the CSV parser skipped, could not match, or failed to load
+                </p>
+              </div>
+            </div>
+            <ProgramTabs
+              activeProgram={activeProgram}
+              onProgramChange={setActiveProgram}
+            />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Per-program status */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[hrtReport, trtReport].map((r) => {
+            const status = programStatus(r);
+            return (
+              <Card
+                key={r.program}
+                className={`border-0 shadow-lg text-white ${
+                  status.fatal
+                    ? "bg-gradient-to-br from-red-500 to-rose-600"
+                    : status.warnings > 0
+                      ? "bg-gradient-to-br from-amber-500 to-orange-600"
+                      : "bg-gradient-to-br from-emerald-500 to-green-600"
+                }`}
+              >
+                <CardContent className="pt-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 rounded-lg bg-white/20">
+                        {status.fatal ? (
+                          <XCircle className="h-5 w-5" />
+                        ) : status.warnings > 0 ? (
+                          <AlertTriangle className="h-5 w-5" />
+                        ) : (
+                          <CheckCircle2 className="h-5 w-5" />
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-xl font-bold">{r.program}</p>
+                        <p className="text-xs text-white/80">
+                          {status.fatal ? "No usable data" : status.warnings > 0 ? `${status.warnings} warning(s)` : "Healthy"}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4 text-center">
+                      <div>
+                        <p className="text-xl font-bold">{r.rowCount}</p>
+                        <p className="text-xs text-white/80">Rows</p>
+                      </div>
+                      <div>
+                        <p className="text-xl font-bold">{r.poolCount}</p>
+                        <p className="text-xs text-white/80">Pools</p>
+                      </div>
+                      <div>
+                        <p className="text-xl font-bold">{r.skippedCells.length}</p>
+                        <p className="text-xs text-white/80">Skipped</p>
+                      </div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* Load failures */}
+        {(loadErrors.length > 0 || report.loadErrors.length > 0) && (
+          <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+            <CardHeader className="bg-gradient-to-r from-red-500 to-rose-500 text-white rounded-t-lg">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <FileWarning className="h-5 w-5" />
+                Load Failures
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...report.loadErrors, ...loadErrors].map((error) => (
+                    <TableRow key={error.file}>
+                      <TableCell className="font-mono text-sm">{error.file}</TableCell>
+                      <TableCell className="text-sm text-red-700">{error.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <ParseDiagnostics report={report} />
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t mt-12 bg-white/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <p className="text-xs text-center text-muted-foreground">
+            Resource Pool Viewer • Data Health • Cell references match the spreadsheet (row 1 = state headers)
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
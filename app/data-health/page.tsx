@@ -0,0 +1,14 @@
+import { loadDataHealth } from "@/lib/data";
+import { DataHealthClient } from "./DataHealthClient";
+
+export default function DataHealthPage() {
+  const { hrt, trt, loadErrors } = loadDataHealth();
+
+  return (
+    <DataHealthClient
+      hrtReport={hrt}
+      trtReport={trt}
+      loadErrors={loadErrors}
+    />
+  );
+}
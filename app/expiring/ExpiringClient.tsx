@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ExclusionHistoryControls } from "@/components/ExclusionHistoryControls";
+import { useExclusions } from "@/lib/useExclusions";
+import { ExclusionsData, ExclusionRule } from "@/lib/types";
+import { daysBetween, exclusionReasonLabels, ruleEffect, ruleScopeLabel, toIsoDate } from "@/lib/exclusions";
+import { getStateRoute } from "@/lib/route";
+import { ArrowLeft, CalendarClock, CalendarX, CalendarPlus, Trash2 } from "lucide-react";
+
+interface ExpiringClientProps {
+  serverExclusions: ExclusionsData;
+}
+
+const windowOptions = [7, 14, 30, 60, 90];
+
+export function ExpiringClient({ serverExclusions }: ExpiringClientProps) {
+  const [windowDays, setWindowDays] = useState(14);
+  const {
+    exclusions,
+    removeExclusions,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    recentChanges,
+    isLoaded,
+  } = useExclusions(serverExclusions);
+
+  const today = toIsoDate(new Date());
+
+  // Split dated exclusions into expired, expiring within the window, and not yet started
+  const groups = useMemo(() => {
+    const expired: ExclusionRule[] = [];
+    const expiring: ExclusionRule[] = [];
+    const upcoming: ExclusionRule[] = [];
+
+    exclusions.forEach((e) => {
+      if (e.endDate && e.endDate < today) {
+        expired.push(e);
+      } else if (e.startDate && e.startDate > today) {
+        upcoming.push(e);
+      } else if (e.endDate && daysBetween(today, e.endDate) <= windowDays) {
+        expiring.push(e);
+      }
+    });
+
+    return {
+      expired: expired.sort((a, b) => (b.endDate || "").localeCompare(a.endDate || "")),
+      expiring: expiring.sort((a, b) => (a.endDate || "").localeCompare(b.endDate || "")),
+      upcoming: upcoming.sort((a, b) => (a.startDate || "").localeCompare(b.startDate || "")),
+    };
+  }, [exclusions, today, windowDays]);
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 flex items-center justify-center">
+        <div className="text-muted-foreground animate-pulse">Loading...</div>
+      </div>
+    );
+  }
+
+  const renderTable = (
+    rows: ExclusionRule[],
+    dayLabel: (e: ExclusionRule) => string,
+    allowRemove: boolean
+  ) => {
+    if (rows.length === 0) {
+      return <div className="text-center py-8 text-muted-foreground">None</div>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Provider</TableHead>
+            <TableHead>Program</TableHead>
+            <TableHead>State</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead>From</TableHead>
+            <TableHead>Until</TableHead>
+            <TableHead>When</TableHead>
+            {allowRemove && <TableHead className="w-[120px]">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((e, index) => (
+            <TableRow key={`${e.program}-${e.state}-${e.user}-${e.startDate}-${e.endDate}-${index}`} title={e.note}>
+              <TableCell className="font-medium">{e.user}</TableCell>
+              <TableCell>
+                {e.program ? (
+                  <Badge className={e.program === "HRT" ? "bg-emerald-600" : "bg-blue-600"}>
+                    {e.program}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">All</Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                {e.program && e.state ? (
+                  <Link href={getStateRoute(e.program, e.state)} className="hover:underline">
+                    {e.state}
+                  </Link>
+                ) : (
+                  ruleScopeLabel(e)
+                )}
+                {e.visitType && (
+                  <span className="text-xs text-muted-foreground ml-1">({e.visitType})</span>
+                )}
+              </TableCell>
+              <TableCell className="text-sm">
+                {ruleEffect(e) === "include" ? (
+                  <Badge variant="secondary" className="bg-emerald-100 text-emerald-800">Include override</Badge>
+                ) : e.reason ? (
+                  exclusionReasonLabels[e.reason]
+                ) : (
+                  <span className="text-muted-foreground">Not recorded</span>
+                )}
+              </TableCell>
+              <TableCell className="text-sm whitespace-nowrap">{e.startDate || "—"}</TableCell>
+              <TableCell className="text-sm whitespace-nowrap">{e.endDate || "—"}</TableCell>
+              <TableCell className="text-sm whitespace-nowrap">{dayLabel(e)}</TableCell>
+              {allowRemove && (
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeExclusions([e])}
+                    className="h-8 px-2"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Remove
+                  </Button>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const plural = (n: number) => `${n} day${n === 1 ? "" : "s"}`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-10 bg-gradient-to-r from-violet-600 via-purple-600 to-indigo-600 text-white shadow-lg">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="gap-2 text-white hover:bg-white/20">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                <div className="p-2 bg-white/20 rounded-lg">
+                  <CalendarClock className="h-6 w-6" />
+                </div>
+                Expiring Exclusions
+              </h1>
+              <p className="text-sm text-white/80 mt-1">
+                Time-boxed exclusions that have ended, are about to end, or have not started yet
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Controls */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <ExclusionHistoryControls
+            recentChanges={recentChanges}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            onUndo={undo}
+            onRedo={redo}
+          />
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Expiring within</Label>
+            <Select value={String(windowDays)} onValueChange={(v) => setWindowDays(Number(v))}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {windowOptions.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Expired */}
+        <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader className="bg-gradient-to-r from-red-500 to-rose-500 text-white rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarX className="h-5 w-5" />
+              Expired ({groups.expired.length})
+            </CardTitle>
+            <p className="text-sm text-white/80">
+              No longer applied; remove them to keep the list tidy
+            </p>
+          </CardHeader>
+          <CardContent className="pt-4">
+            {renderTable(groups.expired, (e) => `${plural(daysBetween(e.endDate!, today))} ago`, true)}
+          </CardContent>
+        </Card>
+
+        {/* Expiring soon */}
+        <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader className="bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarClock className="h-5 w-5" />
+              Expiring Soon ({groups.expiring.length})
+            </CardTitle>
+            <p className="text-sm text-white/80">
+              In effect today and ending within {windowDays} days
+            </p>
+          </CardHeader>
+          <CardContent className="pt-4">
+            {renderTable(
+              groups.expiring,
+              (e) => {
+                const days = daysBetween(today, e.endDate!);
+                return days === 0 ? "Last day today" : `Ends in ${plural(days)}`;
+              },
+              false
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Not started */}
+        <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader className="bg-gradient-to-r from-sky-500 to-blue-500 text-white rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarPlus className="h-5 w-5" />
+              Scheduled ({groups.upcoming.length})
+            </CardTitle>
+            <p className="text-sm text-white/80">
+              Start on a future date
+            </p>
+          </CardHeader>
+          <CardContent className="pt-4">
+            {renderTable(groups.upcoming, (e) => `Starts in ${plural(daysBetween(today, e.startDate!))}`, false)}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t mt-8 py-4 bg-white/50">
+        <div className="container mx-auto px-4 text-center text-sm text-muted-foreground">
+          Dates are inclusive: an exclusion applies from its start date through its end date
+        </div>
+      </footer>
+    </div>
+  );
+}
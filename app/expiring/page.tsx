@@ -0,0 +1,10 @@
+import { getAllProgramData } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
+import { ExpiringClient } from "./ExpiringClient";
+
+export default async function ExpiringPage() {
+  const viewedSnapshot = await getViewedSnapshot();
+  const { exclusions } = getAllProgramData(viewedSnapshot?.id);
+
+  return <ExpiringClient serverExclusions={exclusions} />;
+}
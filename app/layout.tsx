@@ -1,5 +1,9 @@
 import type { Metadata } from "next";
 import { DM_Sans, JetBrains_Mono } from "next/font/google";
+import { ViewedSnapshotProvider } from "@/components/ViewedSnapshotProvider";
+import { DataUpdateBanner } from "@/components/DataUpdateBanner";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
+import { getDataFileVersions } from "@/lib/dataEvents";
 import "./globals.css";
 
 const dmSans = DM_Sans({
@@ -19,17 +23,22 @@ export const metadata: Metadata = {
   description: "View and manage HRT and TRT resource pool assignments",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const viewedSnapshot = await getViewedSnapshot();
+
   return (
     <html lang="en">
       <body
         className={`${dmSans.variable} ${jetbrainsMono.variable} font-sans antialiased`}
       >
-        {children}
+        <ViewedSnapshotProvider snapshot={viewedSnapshot}>
+          {children}
+          <DataUpdateBanner renderedVersions={getDataFileVersions()} />
+        </ViewedSnapshotProvider>
       </body>
     </html>
   );
@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ProgramTabs } from "@/components/ProgramTabs";
+import { SearchBar } from "@/components/SearchBar";
+import { AsOfDateInput } from "@/components/AsOfDateInput";
+import { ExclusionDetailsBar } from "@/components/ExclusionDetailsBar";
+import { ExclusionHistoryControls } from "@/components/ExclusionHistoryControls";
+import { useExclusions } from "@/lib/useExclusions";
+import { ExclusionsData, ExclusionTarget, Program, ProviderTier, ResourcePool } from "@/lib/types";
+import { getAllUsers } from "@/lib/parseResourcePoolCsv";
+import { getProviderRoute, getStateRoute } from "@/lib/route";
+import { ArrowLeft, Grid3X3 } from "lucide-react";
+
+interface MatrixClientProps {
+  hrtPools: ResourcePool[];
+  trtPools: ResourcePool[];
+  serverExclusions: ExclusionsData;
+}
+
+type ProviderSort = "name" | "most" | "fewest";
+type StateSort = "name" | "most" | "fewest";
+
+// One visit type of a provider's assignment to a state
+interface CellVisit {
+  tier: ProviderTier;
+  excluded: boolean;
+}
+
+interface MatrixCell {
+  initial?: CellVisit;
+  followUp?: CellVisit;
+}
+
+interface MatrixRow {
+  providerId: string;
+  name: string;
+  cells: Map<string, MatrixCell>;
+  activeStates: number; // States with at least one active visit type
+}
+
+const cellVisits = (cell: MatrixCell): CellVisit[] =>
+  [cell.initial, cell.followUp].filter((v): v is CellVisit => !!v);
+
+export function MatrixClient({
+  hrtPools,
+  trtPools,
+  serverExclusions,
+}: MatrixClientProps) {
+  const [activeProgram, setActiveProgram] = useState<Program>("HRT");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [providerSort, setProviderSort] = useState<ProviderSort>("name");
+  const [stateSort, setStateSort] = useState<StateSort>("name");
+
+  const {
+    isExcluded,
+    planExclusions,
+    applyExclusions,
+    asOf,
+    setAsOf,
+    exclusionDetails,
+    setExclusionDetails,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    recentChanges,
+    actor,
+    setActor,
+    isLoaded,
+  } = useExclusions(serverExclusions);
+
+  const resourcePools = activeProgram === "HRT" ? hrtPools : trtPools;
+
+  // Pivot every assignment into provider rows and state columns
+  const matrix = useMemo(() => {
+    const rows = new Map<string, MatrixRow>();
+    const activeByState = new Map<string, number>();
+
+    getAllUsers(resourcePools).forEach((user) => {
+      const row = rows.get(user.providerId) || {
+        providerId: user.providerId,
+        name: user.name,
+        cells: new Map<string, MatrixCell>(),
+        activeStates: 0,
+      };
+      const cell = row.cells.get(user.state) || {};
+      const visit = {
+        tier: user.tier,
+        excluded: isExcluded(user.name, user.state, activeProgram, user.visitType),
+      };
+      if (user.visitType === "Initial") cell.initial = visit;
+      else cell.followUp = visit;
+      row.cells.set(user.state, cell);
+      rows.set(user.providerId, row);
+    });
+
+    rows.forEach((row) => {
+      row.cells.forEach((cell, state) => {
+        if (cellVisits(cell).some((v) => !v.excluded)) {
+          row.activeStates++;
+          activeByState.set(state, (activeByState.get(state) || 0) + 1);
+        }
+      });
+    });
+
+    const states = [...new Set(resourcePools.map((p) => p.state))];
+    states.forEach((state) => activeByState.set(state, activeByState.get(state) || 0));
+
+    return { rows: Array.from(rows.values()), states, activeByState };
+  }, [resourcePools, isExcluded, activeProgram]);
+
+  const rows = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return matrix.rows
+      .filter((row) => !query || row.name.toLowerCase().includes(query))
+      .sort((a, b) => {
+        if (providerSort === "most" && a.activeStates !== b.activeStates) return b.activeStates - a.activeStates;
+        if (providerSort === "fewest" && a.activeStates !== b.activeStates) return a.activeStates - b.activeStates;
+        return a.name.localeCompare(b.name);
+      });
+  }, [matrix, searchQuery, providerSort]);
+
+  const states = useMemo(() => {
+    const count = (state: string) => matrix.activeByState.get(state) || 0;
+    return [...matrix.states].sort((a, b) => {
+      if (stateSort === "most" && count(a) !== count(b)) return count(b) - count(a);
+      if (stateSort === "fewest" && count(a) !== count(b)) return count(a) - count(b);
+      return a.localeCompare(b);
+    });
+  }, [matrix, stateSort]);
+
+  // Exclude the listed visit types of a cell, or include them if all are excluded
+  const toggleCell = (row: MatrixRow, state: string, cell: MatrixCell) => {
+    const exclude = cellVisits(cell).some((v) => !v.excluded);
+    const targets: ExclusionTarget[] = [];
+    if (cell.initial) targets.push({ name: row.name, program: activeProgram, state, visitType: "Initial" });
+    if (cell.followUp) targets.push({ name: row.name, program: activeProgram, state, visitType: "Follow Up" });
+    applyExclusions(
+      planExclusions(targets, exclude),
+      `${exclude ? "Excluded" : "Included"} ${row.name} in ${activeProgram} ${state}`
+    );
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 flex items-center justify-center">
+        <div className="text-muted-foreground animate-pulse">Loading...</div>
+      </div>
+    );
+  }
+
+  const isHRT = activeProgram === "HRT";
+
+  const renderCell = (row: MatrixRow, state: string) => {
+    const cell = row.cells.get(state);
+    if (!cell) return <td key={state} className="border-b border-r bg-white" />;
+
+    const visits = cellVisits(cell);
+    const excludedCount = visits.filter((v) => v.excluded).length;
+    const isBackup = visits.every((v) => v.tier === "backup");
+    const label = cell.initial && cell.followUp ? "I+F" : cell.initial ? "I" : "F";
+    const describe = (visitType: string, visit?: CellVisit) =>
+      visit ? `${visitType}: ${visit.excluded ? "excluded" : "active"}${visit.tier === "backup" ? " (back-up)" : ""}` : `${visitType}: not listed`;
+    const colors = excludedCount === visits.length
+      ? "bg-amber-100 text-amber-700 line-through"
+      : excludedCount > 0
+        ? "bg-amber-50 text-amber-800 ring-1 ring-inset ring-amber-300"
+        : isBackup
+          ? "bg-slate-100 text-slate-700"
+          : "bg-emerald-100 text-emerald-800";
+
+    return (
+      <td key={state} className="border-b border-r p-0.5 bg-white">
+        <button
+          type="button"
+          onClick={() => toggleCell(row, state, cell)}
+          title={[
+            `${row.name} · ${state}`,
+            describe("Initial", cell.initial),
+            describe("Follow Up", cell.followUp),
+            `Click to ${excludedCount === visits.length ? "include" : "exclude"}`,
+          ].join("\n")}
+          className={`w-full rounded px-1 py-1 text-[11px] font-semibold whitespace-nowrap hover:opacity-80 ${colors} ${
+            isBackup ? "border border-dashed border-slate-400" : ""
+          }`}
+        >
+          {label}
+        </button>
+      </td>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      {/* Header */}
+      <header className={`border-b sticky top-0 z-10 ${isHRT ? 'bg-gradient-to-r from-emerald-600 to-teal-600' : 'bg-gradient-to-r from-blue-600 to-indigo-600'} text-white shadow-lg`}>
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="gap-2 text-white hover:bg-white/20">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                  <div className="p-2 bg-white/20 rounded-lg">
+                    <Grid3X3 className="h-6 w-6" />
+                  </div>
+                  Assignment Matrix
+                </h1>
+                <p className="text-sm text-white/80 mt-1">
+                  Providers by state; click a cell to exclude or include that assignment
+                </p>
+              </div>
+            </div>
+            <ProgramTabs
+              activeProgram={activeProgram}
+              onProgramChange={setActiveProgram}
+            />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Controls */}
+        <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="w-full sm:w-64">
+                <SearchBar value={searchQuery} onChange={setSearchQuery} placeholder="Search providers..." />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Sort providers</Label>
+                <Select value={providerSort} onValueChange={(v) => setProviderSort(v as ProviderSort)}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="name">By name</SelectItem>
+                    <SelectItem value="most">Most states</SelectItem>
+                    <SelectItem value="fewest">Fewest states</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Sort states</Label>
+                <Select value={stateSort} onValueChange={(v) => setStateSort(v as StateSort)}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="name">By name</SelectItem>
+                    <SelectItem value="most">Best covered</SelectItem>
+                    <SelectItem value="fewest">Least covered</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <AsOfDateInput value={asOf} onChange={setAsOf} />
+            </div>
+            <div className="mt-4 pt-4 border-t flex flex-wrap items-end justify-between gap-4">
+              <ExclusionDetailsBar
+                details={exclusionDetails}
+                onDetailsChange={setExclusionDetails}
+                actor={actor}
+                onActorChange={setActor}
+              />
+              <ExclusionHistoryControls
+                recentChanges={recentChanges}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={undo}
+                onRedo={redo}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          <span><b>I</b> Initial · <b>F</b> Follow Up · <b>I+F</b> both</span>
+          <span className="rounded px-1.5 py-0.5 bg-emerald-100 text-emerald-800 font-semibold">Active</span>
+          <span className="rounded px-1.5 py-0.5 bg-slate-100 text-slate-700 border border-dashed border-slate-400 font-semibold">Back-up</span>
+          <span className="rounded px-1.5 py-0.5 bg-amber-50 text-amber-800 ring-1 ring-inset ring-amber-300 font-semibold">Partly excluded</span>
+          <span className="rounded px-1.5 py-0.5 bg-amber-100 text-amber-700 line-through font-semibold">Excluded</span>
+        </div>
+
+        {/* Matrix */}
+        {rows.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground border rounded-lg">
+            No providers found matching your search.
+          </div>
+        ) : (
+          <div className="max-h-[70vh] overflow-auto rounded-lg border shadow-lg bg-white">
+            <table className="border-separate border-spacing-0 text-sm">
+              <thead>
+                <tr>
+                  <th className="sticky top-0 left-0 z-30 min-w-[180px] border-b border-r bg-muted px-3 py-2 text-left font-semibold">
+                    Provider
+                  </th>
+                  {states.map((state) => (
+                    <th key={state} className="sticky top-0 z-20 border-b border-r bg-muted px-1 py-2 font-semibold">
+                      <Link
+                        href={getStateRoute(activeProgram, state)}
+                        className="block max-w-[72px] truncate text-xs hover:underline"
+                        title={state}
+                      >
+                        {state}
+                      </Link>
+                    </th>
+                  ))}
+                  <th className="sticky top-0 right-0 z-30 border-b border-l bg-muted px-3 py-2 text-right font-semibold">
+                    States
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.providerId}>
+                    <th className="sticky left-0 z-10 border-b border-r bg-white px-3 py-1 text-left font-medium whitespace-nowrap">
+                      <Link href={getProviderRoute(row.providerId)} className="hover:underline">
+                        {row.name}
+                      </Link>
+                    </th>
+                    {states.map((state) => renderCell(row, state))}
+                    <td className="sticky right-0 z-10 border-b border-l bg-white px-3 py-1 text-right font-semibold">
+                      {row.activeStates}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <th className="sticky bottom-0 left-0 z-30 border-t bg-muted px-3 py-2 text-left font-semibold">
+                    Active providers
+                  </th>
+                  {states.map((state) => {
+                    const count = matrix.activeByState.get(state) || 0;
+                    return (
+                      <td
+                        key={state}
+                        className={`sticky bottom-0 z-20 border-t border-r bg-muted px-1 py-2 text-center font-semibold ${
+                          count === 0 ? "text-red-600" : count === 1 ? "text-amber-700" : ""
+                        }`}
+                      >
+                        {count}
+                      </td>
+                    );
+                  })}
+                  <td className="sticky bottom-0 right-0 z-30 border-t border-l bg-muted px-3 py-2 text-right font-semibold" title="Providers shown">
+                    {rows.length}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { getAllProgramData } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
+import { MatrixClient } from "./MatrixClient";
+
+export default async function MatrixPage() {
+  const viewedSnapshot = await getViewedSnapshot();
+  const { hrt, trt, exclusions } = getAllProgramData(viewedSnapshot?.id);
+
+  return (
+    <MatrixClient
+      hrtPools={hrt}
+      trtPools={trt}
+      serverExclusions={exclusions}
+    />
+  );
+}
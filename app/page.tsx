@@ -1,14 +1,21 @@
-import { getAllProgramData } from "@/lib/data";
+import { getAllProgramData, listRosterSnapshots, loadDataHealth, getDataProblems, loadCoverageRules } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
 import { DashboardClient } from "./DashboardClient";
 
-export default function DashboardPage() {
-  const { hrt, trt, exclusions } = getAllProgramData();
+export default async function DashboardPage() {
+  const viewedSnapshot = await getViewedSnapshot();
+  const { hrt, trt, exclusions } = getAllProgramData(viewedSnapshot?.id);
+  const dataProblems = getDataProblems(loadDataHealth());
+  const { rules: coverageRules } = loadCoverageRules();
 
   return (
     <DashboardClient
       hrtPools={hrt}
       trtPools={trt}
       serverExclusions={exclusions}
+      dataProblems={dataProblems}
+      coverageRules={coverageRules}
+      snapshots={listRosterSnapshots()}
     />
   );
 }
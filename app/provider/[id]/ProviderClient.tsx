@@ -0,0 +1,428 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AsOfDateInput } from "@/components/AsOfDateInput";
+import { ExclusionDetailsBar } from "@/components/ExclusionDetailsBar";
+import { ExclusionHistoryControls } from "@/components/ExclusionHistoryControls";
+import { PoolAnnotationBadges } from "@/components/PoolAnnotationBadges";
+import { ExclusionChangeConfirm } from "@/components/ExclusionChangeConfirm";
+import { useExclusions } from "@/lib/useExclusions";
+import {
+  ResourcePool,
+  Program,
+  VisitType,
+  ExclusionsData,
+  ExclusionChange,
+  ExclusionRule,
+  PoolAnnotation,
+  PoolMember,
+} from "@/lib/types";
+import { describeExclusion, exclusionReasonLabels, ruleScopeLabel } from "@/lib/exclusions";
+import { mergePoolAnnotations } from "@/lib/parseResourcePoolCsv";
+import { getSimulatorRoute, getStateRoute } from "@/lib/route";
+import { ArrowLeft, User, MapPin, Users, UserX, AlertTriangle, UserMinus, UserPlus, Ban, FlaskConical } from "lucide-react";
+
+interface ProviderClientProps {
+  providerId: string;
+  name: string;
+  aliases: string[];
+  matched: boolean;
+  pools: ResourcePool[]; // Every pool the provider is listed in
+  serverExclusions: ExclusionsData;
+}
+
+interface Assignment {
+  member: PoolMember;
+  exclusion?: ExclusionRule;
+}
+
+interface StateAssignments {
+  program: Program;
+  state: string;
+  initial?: Assignment;
+  followUp?: Assignment;
+  annotations: PoolAnnotation[];
+  gap?: string; // Why Initial patients have no Follow Up coverage from this provider
+}
+
+export function ProviderClient({
+  providerId,
+  name,
+  aliases,
+  matched,
+  pools,
+  serverExclusions,
+}: ProviderClientProps) {
+  const [pendingChange, setPendingChange] = useState<{ title: string; change: ExclusionChange } | null>(null);
+
+  const {
+    getExclusion,
+    toggleExcluded,
+    planExclusions,
+    applyExclusions,
+    exclusionDetails,
+    setExclusionDetails,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    recentChanges,
+    actor,
+    setActor,
+    asOf,
+    setAsOf,
+    isLoaded,
+  } = useExclusions(serverExclusions);
+
+  // One row per program and state, with the provider's Initial and Follow Up assignments
+  const rows = useMemo(() => {
+    const byState = new Map<string, StateAssignments>();
+    const statePools = new Map<string, ResourcePool[]>();
+
+    pools.forEach((pool) => {
+      const member = pool.members.find((m) => m.providerId === providerId);
+      if (!member) return;
+
+      const key = `${pool.program}|${pool.state}`;
+      const row = byState.get(key) || { program: pool.program, state: pool.state, annotations: [] };
+      const assignment = {
+        member,
+        exclusion: getExclusion(member.name, pool.state, pool.program, pool.visitType),
+      };
+      if (pool.visitType === "Initial") {
+        row.initial = assignment;
+      } else {
+        row.followUp = assignment;
+      }
+      byState.set(key, row);
+      statePools.set(key, [...(statePools.get(key) || []), pool]);
+    });
+
+    return Array.from(byState.entries())
+      .map(([key, row]) => {
+        const annotations = mergePoolAnnotations(statePools.get(key)!);
+        let gap: string | undefined;
+        if (row.initial && !row.initial.exclusion) {
+          if (!row.followUp) gap = "Not listed for Follow Up";
+          else if (row.followUp.exclusion) gap = "Excluded from Follow Up";
+        }
+        return { ...row, annotations, gap };
+      })
+      .sort((a, b) => a.program.localeCompare(b.program) || a.state.localeCompare(b.state));
+  }, [pools, providerId, getExclusion]);
+
+  // Stats
+  const stats = useMemo(() => {
+    const assignments = rows.flatMap((row) => [row.initial, row.followUp].filter((a): a is Assignment => !!a));
+    const excluded = assignments.filter((a) => a.exclusion).length;
+    return {
+      states: rows.length,
+      active: assignments.length - excluded,
+      excluded,
+      gaps: rows.filter((row) => row.gap).length,
+    };
+  }, [rows]);
+
+  // Exclude every state the provider is listed in, for one program or both
+  const handleExcludeEverywhere = (programs: Program[]) => {
+    const targets = rows
+      .filter((row) => programs.includes(row.program))
+      .map((row) => ({ name: (row.initial || row.followUp)!.member.name, program: row.program, state: row.state }));
+    setPendingChange({
+      title: `Exclude ${name} in every ${programs.length === 1 ? `${programs[0]} state` : "state of both programs"}`,
+      change: planExclusions(targets, true),
+    });
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 flex items-center justify-center">
+        <div className="text-muted-foreground animate-pulse">Loading...</div>
+      </div>
+    );
+  }
+
+  const renderAssignment = (row: StateAssignments, visitType: VisitType, assignment?: Assignment) => {
+    if (!assignment) {
+      return <span className="text-sm text-muted-foreground italic">Not listed</span>;
+    }
+
+    const { member, exclusion } = assignment;
+    return (
+      <div
+        className="flex flex-wrap items-center gap-2"
+        title={exclusion ? describeExclusion(exclusion) : undefined}
+      >
+        {exclusion ? (
+          <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+            Excluded
+            {exclusion.reason && ` · ${exclusionReasonLabels[exclusion.reason]}`}
+          </Badge>
+        ) : (
+          <Badge variant="secondary" className="bg-emerald-100 text-emerald-800">
+            Active
+          </Badge>
+        )}
+        {member.tier === "backup" && (
+          <Badge variant="outline" className="border-slate-400 text-slate-600">
+            Back-up
+          </Badge>
+        )}
+        {exclusion && (exclusion.program !== row.program || exclusion.state !== row.state) && (
+          <span className="text-xs text-muted-foreground">({ruleScopeLabel(exclusion)})</span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => toggleExcluded(member.name, row.state, row.program, visitType)}
+          className="h-7 px-2"
+        >
+          {exclusion ? (
+            <>
+              <UserPlus className="h-4 w-4 mr-1" />
+              Include
+            </>
+          ) : (
+            <>
+              <UserMinus className="h-4 w-4 mr-1" />
+              Exclude
+            </>
+          )}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-10 bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 text-white shadow-lg">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="gap-2 text-white hover:bg-white/20">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                <div className="p-2 bg-white/20 rounded-lg">
+                  <User className="h-6 w-6" />
+                </div>
+                {name}
+                {!matched && (
+                  <Badge className="bg-amber-500 text-white">Not in provider directory</Badge>
+                )}
+              </h1>
+              {aliases.length > 0 && (
+                <p className="text-sm text-white/80 mt-1">
+                  Also listed as {aliases.join(", ")}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card className="bg-gradient-to-br from-violet-500 to-purple-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <MapPin className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{stats.states}</p>
+                  <p className="text-xs text-white/80">Program States</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-emerald-500 to-green-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <Users className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{stats.active}</p>
+                  <p className="text-xs text-white/80">Active Assignments</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-amber-500 to-orange-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <UserX className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{stats.excluded}</p>
+                  <p className="text-xs text-white/80">Excluded Assignments</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-rose-500 to-red-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <AlertTriangle className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{stats.gaps}</p>
+                  <p className="text-xs text-white/80">Initial without Follow Up</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Controls */}
+        <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <AsOfDateInput value={asOf} onChange={setAsOf} />
+              <ExclusionDetailsBar
+                details={exclusionDetails}
+                onDetailsChange={setExclusionDetails}
+                actor={actor}
+                onActorChange={setActor}
+              />
+              <ExclusionHistoryControls
+                recentChanges={recentChanges}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={undo}
+                onRedo={redo}
+              />
+            </div>
+            <div className="mt-4 pt-4 border-t flex flex-wrap gap-2">
+              {(["HRT", "TRT"] as Program[]).map((program) => (
+                <Button
+                  key={program}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleExcludeEverywhere([program])}
+                  disabled={!rows.some((row) => row.program === program)}
+                  className="gap-1 border-rose-300 text-rose-700 hover:bg-rose-100"
+                >
+                  <Ban className="h-4 w-4" />
+                  Exclude in every {program} state
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleExcludeEverywhere(["HRT", "TRT"])}
+                disabled={rows.length === 0}
+                className="gap-1 border-rose-300 text-rose-700 hover:bg-rose-100"
+              >
+                <Ban className="h-4 w-4" />
+                Exclude in both programs
+              </Button>
+              <Link href={getSimulatorRoute([providerId])} className="ml-auto">
+                <Button size="sm" variant="outline" className="gap-1">
+                  <FlaskConical className="h-4 w-4" />
+                  Simulate leave
+                </Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Assignments by program */}
+        {(["HRT", "TRT"] as Program[]).map((program) => {
+          const programRows = rows.filter((row) => row.program === program);
+          const isHRT = program === "HRT";
+
+          return (
+            <Card key={program} className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+              <CardHeader className={`${isHRT ? "bg-gradient-to-r from-emerald-500 to-teal-500" : "bg-gradient-to-r from-blue-500 to-indigo-500"} text-white rounded-t-lg`}>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <MapPin className="h-5 w-5" />
+                  {program} ({programRows.length} states)
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-4">
+                {programRows.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Not listed in any {program} state.
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>State</TableHead>
+                        <TableHead>Initial</TableHead>
+                        <TableHead>Follow Up</TableHead>
+                        <TableHead>Coverage</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {programRows.map((row) => (
+                        <TableRow key={row.state} className={row.gap ? "bg-rose-50" : ""}>
+                          <TableCell className="font-medium">
+                            <Link href={getStateRoute(row.program, row.state)} className="hover:underline">
+                              {row.state}
+                            </Link>
+                            <PoolAnnotationBadges annotations={row.annotations} />
+                          </TableCell>
+                          <TableCell>{renderAssignment(row, "Initial", row.initial)}</TableCell>
+                          <TableCell>{renderAssignment(row, "Follow Up", row.followUp)}</TableCell>
+                          <TableCell>
+                            {row.gap && (
+                              <Badge variant="secondary" className="gap-1 bg-rose-100 text-rose-800">
+                                <AlertTriangle className="h-3 w-3" />
+                                {row.gap}
+                              </Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </main>
+
+      {pendingChange && (
+        <ExclusionChangeConfirm
+          title={pendingChange.title}
+          change={pendingChange.change}
+          onConfirm={() => {
+            applyExclusions(pendingChange.change, pendingChange.title);
+            setPendingChange(null);
+          }}
+          onCancel={() => setPendingChange(null)}
+        />
+      )}
+
+      {/* Footer */}
+      <footer className="border-t mt-8 py-4 bg-white/50">
+        <div className="container mx-auto px-4 text-center text-sm text-muted-foreground">
+          Excluding or including here applies to one program, state and visit type
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { notFound } from "next/navigation";
+import { getAllProgramData } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
+import { decodeProviderParam } from "@/lib/route";
+import { ProviderClient } from "./ProviderClient";
+
+interface PageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function ProviderPage({ params }: PageProps) {
+  const { id: idParam } = await params;
+  const providerId = decodeProviderParam(idParam);
+
+  const viewedSnapshot = await getViewedSnapshot();
+  const { hrt, trt, exclusions, providers } = getAllProgramData(viewedSnapshot?.id);
+  const pools = [...hrt, ...trt].filter((pool) =>
+    pool.members.some((member) => member.providerId === providerId)
+  );
+  const provider = providers.providers.find((p) => p.id === providerId);
+
+  if (!provider && pools.length === 0) {
+    notFound();
+  }
+
+  // Unmatched names have no directory entry; use the sheet's spelling
+  const name = provider?.name
+    || pools[0].members.find((member) => member.providerId === providerId)!.name;
+
+  return (
+    <ProviderClient
+      providerId={providerId}
+      name={name}
+      aliases={provider?.aliases || []}
+      matched={!!provider}
+      pools={pools}
+      serverExclusions={exclusions}
+    />
+  );
+}
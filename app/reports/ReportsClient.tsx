@@ -14,8 +14,13 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { ProgramTabs } from "@/components/ProgramTabs";
+import { TierFilterSelect } from "@/components/TierFilterSelect";
+import { AsOfDateInput } from "@/components/AsOfDateInput";
 import { useExclusions } from "@/lib/useExclusions";
-import { ResourcePool, Program, ExclusionsData } from "@/lib/types";
+import { ResourcePool, Program, ExclusionsData, TierFilter, VisitType } from "@/lib/types";
+import { filterMembersByTier } from "@/lib/parseResourcePoolCsv";
+import { compareProgramCoverage, getActiveCountsByState, getProviderCoverage, VisitTypeCounts } from "@/lib/reports";
+import { getProviderRoute, getStateRoute } from "@/lib/route";
 import { 
   ArrowLeft, 
   Users, 
@@ -25,7 +30,9 @@ import {
   Award,
   BarChart3,
   Crown,
-  Target
+  Target,
+  UserPlus2,
+  ArrowLeftRight
 } from "lucide-react";
 
 interface ReportsClientProps {
@@ -40,34 +47,25 @@ export function ReportsClient({
   serverExclusions,
 }: ReportsClientProps) {
   const [activeProgram, setActiveProgram] = useState<Program>("HRT");
+  const [tierFilter, setTierFilter] = useState<TierFilter>("primary");
   
-  const { isExcluded, isLoaded } = useExclusions(serverExclusions);
+  const { getPoolPartition, asOf, setAsOf, isLoaded } = useExclusions(serverExclusions);
 
   const activePools = activeProgram === "HRT" ? hrtPools : trtPools;
 
-  // Compute reports data with state-specific exclusions
+  // Compute reports data with state-specific exclusions, per visit type
   const reports = useMemo(() => {
-    // User state count map - only count non-excluded assignments
-    const userStateCount: Map<string, Set<string>> = new Map();
-    
-    activePools.forEach((pool) => {
-      pool.users.forEach((user) => {
-        // Check if user is excluded for THIS specific state
-        if (!isExcluded(user, pool.state, activeProgram)) {
-          if (!userStateCount.has(user)) {
-            userStateCount.set(user, new Set());
-          }
-          userStateCount.get(user)!.add(pool.state);
-        }
-      });
-    });
-
-    // Convert to array and sort
-    const userStates = Array.from(userStateCount.entries()).map(([name, states]) => ({
-      name,
-      stateCount: states.size,
-      states: Array.from(states).sort(),
-    }));
+    // States each provider is active in (keyed by provider ID), skipping excluded assignments
+    const userStates = Array.from(getProviderCoverage(activePools, getPoolPartition, tierFilter).values())
+      .map((coverage) => ({
+        providerId: coverage.providerId,
+        name: coverage.name,
+        initialCount: coverage.initial.size,
+        followUpCount: coverage.followUp.size,
+        stateCount: coverage.any.size,
+        // States seen only for new patients, whose follow-ups go elsewhere
+        initialOnly: [...coverage.initial].filter((state) => !coverage.followUp.has(state)).sort(),
+      }));
 
     // Users in most states (top 15)
     const usersInMostStates = [...userStates]
@@ -80,43 +78,64 @@ export function ReportsClient({
       .sort((a, b) => a.stateCount - b.stateCount)
       .slice(0, 15);
 
-    // States by user count (excluding per-state exclusions)
-    const stateUserCounts = activePools
-      .map((pool) => ({
-        state: pool.state,
-        userCount: pool.users.filter((u) => !isExcluded(u, pool.state, activeProgram)).length,
-        totalCount: pool.users.length,
-      }))
-      .sort((a, b) => b.userCount - a.userCount);
+    const usersWithInitialOnly = userStates
+      .filter((u) => u.initialOnly.length > 0)
+      .sort((a, b) => b.initialOnly.length - a.initialOnly.length || a.name.localeCompare(b.name));
+
+    // Active users per state and visit type (excluding per-state exclusions)
+    const stateUserCounts = Array.from(getActiveCountsByState(activePools, getPoolPartition, tierFilter).entries())
+      .map(([state, counts]) => ({ state, ...counts }));
 
     // States with most users (top 10)
-    const statesWithMostUsers = stateUserCounts.slice(0, 10);
+    const statesWithMostUsers = [...stateUserCounts]
+      .sort((a, b) => b.initial + b.followUp - (a.initial + a.followUp))
+      .slice(0, 10);
 
-    // States with fewest users (bottom 10)
+    // States with fewest users (bottom 10), by their thinner visit type
     const statesWithFewestUsers = [...stateUserCounts]
-      .sort((a, b) => a.userCount - b.userCount)
+      .sort((a, b) => Math.min(a.initial, a.followUp) - Math.min(b.initial, b.followUp))
       .slice(0, 10);
 
     // Summary stats
-    const totalUniqueUsers = userStateCount.size;
-    const avgStatesPerUser = userStates.length > 0 
-      ? (userStates.reduce((sum, u) => sum + u.stateCount, 0) / userStates.length).toFixed(1)
-      : "0";
-    const avgUsersPerState = activePools.length > 0
-      ? (stateUserCounts.reduce((sum, s) => sum + s.userCount, 0) / activePools.length).toFixed(1)
-      : "0";
+    const average = (values: number[]) =>
+      values.length > 0 ? (values.reduce((sum, v) => sum + v, 0) / values.length).toFixed(1) : "0";
+    const poolCount = (visitType: VisitType) => activePools.filter((p) => p.visitType === visitType).length;
 
     return {
       usersInMostStates,
       usersInFewestStates,
+      usersWithInitialOnly,
       statesWithMostUsers,
       statesWithFewestUsers,
-      totalUniqueUsers,
-      avgStatesPerUser,
-      avgUsersPerState,
-      totalStates: activePools.length,
+      totalUniqueUsers: {
+        any: userStates.length,
+        initial: userStates.filter((u) => u.initialCount > 0).length,
+        followUp: userStates.filter((u) => u.followUpCount > 0).length,
+      },
+      totalStates: {
+        any: stateUserCounts.length,
+        initial: poolCount("Initial"),
+        followUp: poolCount("Follow Up"),
+      },
+      avgStatesPerUser: {
+        any: average(userStates.map((u) => u.stateCount)),
+        initial: average(userStates.filter((u) => u.initialCount > 0).map((u) => u.initialCount)),
+        followUp: average(userStates.filter((u) => u.followUpCount > 0).map((u) => u.followUpCount)),
+      },
+      avgUsersPerState: {
+        initial: average(activePools.filter((p) => p.visitType === "Initial")
+          .map((p) => filterMembersByTier(getPoolPartition(p).active, tierFilter).length)),
+        followUp: average(activePools.filter((p) => p.visitType === "Follow Up")
+          .map((p) => filterMembersByTier(getPoolPartition(p).active, tierFilter).length)),
+      },
     };
-  }, [activePools, activeProgram, isExcluded]);
+  }, [activePools, getPoolPartition, tierFilter]);
+
+  // HRT and TRT side by side, independent of the selected program
+  const comparison = useMemo(
+    () => compareProgramCoverage(hrtPools, trtPools, getPoolPartition, tierFilter),
+    [hrtPools, trtPools, getPoolPartition, tierFilter]
+  );
 
   if (!isLoaded) {
     return (
@@ -149,7 +168,7 @@ export function ReportsClient({
                   Reports & Analytics
                 </h1>
                 <p className="text-sm text-white/80 mt-1">
-                  Insights into resource pool distribution (excludes highlighted/backup providers per state)
+                  Insights into resource pool distribution (skips excluded providers per state)
                 </p>
               </div>
             </div>
@@ -162,6 +181,12 @@ export function ReportsClient({
       </header>
 
       <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Controls */}
+        <div className="flex justify-end items-end gap-4">
+          <AsOfDateInput value={asOf} onChange={setAsOf} />
+          <TierFilterSelect value={tierFilter} onChange={setTierFilter} />
+        </div>
+
         {/* Summary Stats */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <Card className="bg-gradient-to-br from-violet-500 to-purple-600 text-white border-0 shadow-lg">
@@ -171,8 +196,11 @@ export function ReportsClient({
                   <Users className="h-5 w-5" />
                 </div>
                 <div>
-                  <p className="text-3xl font-bold">{reports.totalUniqueUsers}</p>
+                  <p className="text-3xl font-bold">{reports.totalUniqueUsers.any}</p>
                   <p className="text-xs text-white/80">Active Users</p>
+                  <p className="text-xs text-white/70">
+                    Initial {reports.totalUniqueUsers.initial} · Follow Up {reports.totalUniqueUsers.followUp}
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -184,8 +212,11 @@ export function ReportsClient({
                   <MapPin className="h-5 w-5" />
                 </div>
                 <div>
-                  <p className="text-3xl font-bold">{reports.totalStates}</p>
+                  <p className="text-3xl font-bold">{reports.totalStates.any}</p>
                   <p className="text-xs text-white/80">States</p>
+                  <p className="text-xs text-white/70">
+                    Initial {reports.totalStates.initial} · Follow Up {reports.totalStates.followUp}
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -197,8 +228,11 @@ export function ReportsClient({
                   <Target className="h-5 w-5" />
                 </div>
                 <div>
-                  <p className="text-3xl font-bold">{reports.avgStatesPerUser}</p>
+                  <p className="text-3xl font-bold">{reports.avgStatesPerUser.any}</p>
                   <p className="text-xs text-white/80">Avg States/User</p>
+                  <p className="text-xs text-white/70">
+                    Initial {reports.avgStatesPerUser.initial} · Follow Up {reports.avgStatesPerUser.followUp}
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -210,8 +244,11 @@ export function ReportsClient({
                   <Award className="h-5 w-5" />
                 </div>
                 <div>
-                  <p className="text-3xl font-bold">{reports.avgUsersPerState}</p>
-                  <p className="text-xs text-white/80">Avg Users/State</p>
+                  <p className="text-3xl font-bold">
+                    {reports.avgUsersPerState.initial}
+                    <span className="text-lg text-white/70"> / {reports.avgUsersPerState.followUp}</span>
+                  </p>
+                  <p className="text-xs text-white/80">Avg Users/State (Initial / Follow Up)</p>
                 </div>
               </div>
             </CardContent>
@@ -235,12 +272,14 @@ export function ReportsClient({
                     <TableRow>
                       <TableHead className="w-12">#</TableHead>
                       <TableHead>User</TableHead>
+                      <TableHead className="text-right">Initial</TableHead>
+                      <TableHead className="text-right">Follow Up</TableHead>
                       <TableHead className="text-right">States</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {reports.usersInMostStates.map((user, idx) => (
-                      <TableRow key={user.name} className={idx < 3 ? "bg-amber-50" : ""}>
+                      <TableRow key={user.providerId} className={idx < 3 ? "bg-amber-50" : ""}>
                         <TableCell>
                           {idx < 3 ? (
                             <Badge className={`${idx === 0 ? 'bg-yellow-500' : idx === 1 ? 'bg-gray-400' : 'bg-amber-600'}`}>
@@ -250,7 +289,13 @@ export function ReportsClient({
                             <span className="text-muted-foreground">{idx + 1}</span>
                           )}
                         </TableCell>
-                        <TableCell className="font-medium">{user.name}</TableCell>
+                        <TableCell className="font-medium">
+                          <Link href={getProviderRoute(user.providerId)} className="hover:underline">
+                            {user.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right">{user.initialCount}</TableCell>
+                        <TableCell className="text-right">{user.followUpCount}</TableCell>
                         <TableCell className="text-right">
                           <Badge variant="secondary" className="bg-emerald-100 text-emerald-700">
                             {user.stateCount}
@@ -279,14 +324,22 @@ export function ReportsClient({
                     <TableRow>
                       <TableHead className="w-12">#</TableHead>
                       <TableHead>User</TableHead>
+                      <TableHead className="text-right">Initial</TableHead>
+                      <TableHead className="text-right">Follow Up</TableHead>
                       <TableHead className="text-right">States</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {reports.usersInFewestStates.map((user, idx) => (
-                      <TableRow key={user.name}>
+                      <TableRow key={user.providerId}>
                         <TableCell className="text-muted-foreground">{idx + 1}</TableCell>
-                        <TableCell className="font-medium">{user.name}</TableCell>
+                        <TableCell className="font-medium">
+                          <Link href={getProviderRoute(user.providerId)} className="hover:underline">
+                            {user.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right">{user.initialCount}</TableCell>
+                        <TableCell className="text-right">{user.followUpCount}</TableCell>
                         <TableCell className="text-right">
                           <Badge variant="secondary" className="bg-blue-100 text-blue-700">
                             {user.stateCount}
@@ -315,7 +368,8 @@ export function ReportsClient({
                     <TableRow>
                       <TableHead className="w-12">#</TableHead>
                       <TableHead>State</TableHead>
-                      <TableHead className="text-right">Users</TableHead>
+                      <TableHead className="text-right">Initial</TableHead>
+                      <TableHead className="text-right">Follow Up</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -330,12 +384,18 @@ export function ReportsClient({
                             <span className="text-muted-foreground">{idx + 1}</span>
                           )}
                         </TableCell>
-                        <TableCell className="font-medium">{state.state}</TableCell>
-                        <TableCell className="text-right">
-                          <Badge variant="secondary" className="bg-emerald-100 text-emerald-700">
-                            {state.userCount}
-                          </Badge>
+                        <TableCell className="font-medium">
+                          <Link href={getStateRoute(activeProgram, state.state)} className="hover:underline">
+                            {state.state}
+                          </Link>
                         </TableCell>
+                        {[state.initial, state.followUp].map((count, i) => (
+                          <TableCell key={i} className="text-right">
+                            <Badge variant="secondary" className="bg-emerald-100 text-emerald-700">
+                              {count}
+                            </Badge>
+                          </TableCell>
+                        ))}
                       </TableRow>
                     ))}
                   </TableBody>
@@ -359,19 +419,26 @@ export function ReportsClient({
                     <TableRow>
                       <TableHead className="w-12">#</TableHead>
                       <TableHead>State</TableHead>
-                      <TableHead className="text-right">Users</TableHead>
+                      <TableHead className="text-right">Initial</TableHead>
+                      <TableHead className="text-right">Follow Up</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {reports.statesWithFewestUsers.map((state, idx) => (
                       <TableRow key={state.state}>
                         <TableCell className="text-muted-foreground">{idx + 1}</TableCell>
-                        <TableCell className="font-medium">{state.state}</TableCell>
-                        <TableCell className="text-right">
-                          <Badge variant="secondary" className={`${state.userCount === 0 ? 'bg-red-100 text-red-700' : 'bg-rose-100 text-rose-700'}`}>
-                            {state.userCount}
-                          </Badge>
+                        <TableCell className="font-medium">
+                          <Link href={getStateRoute(activeProgram, state.state)} className="hover:underline">
+                            {state.state}
+                          </Link>
                         </TableCell>
+                        {[state.initial, state.followUp].map((count, i) => (
+                          <TableCell key={i} className="text-right">
+                            <Badge variant="secondary" className={`${count === 0 ? 'bg-red-100 text-red-700' : 'bg-rose-100 text-rose-700'}`}>
+                              {count}
+                            </Badge>
+                          </TableCell>
+                        ))}
                       </TableRow>
                     ))}
                   </TableBody>
@@ -380,13 +447,202 @@ export function ReportsClient({
             </CardContent>
           </Card>
         </div>
+
+        {/* Initial without Follow Up */}
+        <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader className="bg-gradient-to-r from-amber-500 to-yellow-500 text-white rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <UserPlus2 className="h-5 w-5" />
+              Initial Without Follow Up ({reports.usersWithInitialOnly.length})
+            </CardTitle>
+            <p className="text-sm text-white/80">
+              Providers who see new patients in a state but are not active for its follow-ups
+            </p>
+          </CardHeader>
+          <CardContent className="pt-4">
+            {reports.usersWithInitialOnly.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">None</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead>States</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reports.usersWithInitialOnly.map((user) => (
+                      <TableRow key={user.providerId}>
+                        <TableCell className="font-medium whitespace-nowrap">
+                          <Link href={getProviderRoute(user.providerId)} className="hover:underline">
+                            {user.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {user.initialOnly.map((state) => (
+                              <Link key={state} href={getStateRoute(activeProgram, state)}>
+                                <Badge variant="outline" className="hover:bg-muted">{state}</Badge>
+                              </Link>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Cross-program comparison */}
+        <div className="pt-4">
+          <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
+            <ArrowLeftRight className="h-5 w-5 text-violet-600" />
+            <span className="bg-gradient-to-r from-emerald-600 to-blue-600 bg-clip-text text-transparent">
+              HRT vs TRT
+            </span>
+          </h2>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {([
+              ["HRT", comparison.hrtOnlyStates, "TRT"],
+              ["TRT", comparison.trtOnlyStates, "HRT"],
+            ] as [Program, string[], Program][]).map(([program, states, other]) => (
+              <Card key={program} className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+                <CardHeader className={`${program === "HRT" ? "bg-gradient-to-r from-emerald-500 to-teal-500" : "bg-gradient-to-r from-blue-500 to-indigo-500"} text-white rounded-t-lg`}>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <MapPin className="h-5 w-5" />
+                    Served by {program} Only ({states.length})
+                  </CardTitle>
+                  <p className="text-sm text-white/80">
+                    States with active {program} providers and none in {other}
+                  </p>
+                </CardHeader>
+                <CardContent className="pt-4">
+                  {states.length === 0 ? (
+                    <div className="text-center py-4 text-muted-foreground">None</div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {states.map((state) => (
+                        <Link key={state} href={getStateRoute(program, state)}>
+                          <Badge variant="outline" className="hover:bg-muted">{state}</Badge>
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+
+            {/* Per-state deltas */}
+            <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+              <CardHeader className="bg-gradient-to-r from-violet-500 to-purple-500 text-white rounded-t-lg">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <BarChart3 className="h-5 w-5" />
+                  Active Users by State
+                </CardTitle>
+                <p className="text-sm text-white/80">
+                  Largest HRT vs TRT difference first; — means the program has no pool there
+                </p>
+              </CardHeader>
+              <CardContent className="pt-4">
+                <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>State</TableHead>
+                        <TableHead className="text-right">HRT Initial</TableHead>
+                        <TableHead className="text-right">TRT Initial</TableHead>
+                        <TableHead className="text-right">HRT Follow Up</TableHead>
+                        <TableHead className="text-right">TRT Follow Up</TableHead>
+                        <TableHead className="text-right">Δ</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {comparison.stateDeltas.map(({ state, hrt, trt }) => {
+                        const total = (c: VisitTypeCounts | null) => (c ? c.initial + c.followUp : 0);
+                        const delta = total(hrt) - total(trt);
+                        const show = (c: VisitTypeCounts | null, key: keyof VisitTypeCounts) =>
+                          c ? c[key] : <span className="text-muted-foreground">—</span>;
+                        return (
+                          <TableRow key={state}>
+                            <TableCell className="font-medium">{state}</TableCell>
+                            <TableCell className="text-right">{show(hrt, "initial")}</TableCell>
+                            <TableCell className="text-right">{show(trt, "initial")}</TableCell>
+                            <TableCell className="text-right">{show(hrt, "followUp")}</TableCell>
+                            <TableCell className="text-right">{show(trt, "followUp")}</TableCell>
+                            <TableCell className="text-right">
+                              <Badge
+                                variant="secondary"
+                                className={delta > 0 ? "bg-emerald-100 text-emerald-700" : delta < 0 ? "bg-blue-100 text-blue-700" : ""}
+                              >
+                                {delta > 0 ? `HRT +${delta}` : delta < 0 ? `TRT +${-delta}` : "0"}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Providers covering different states per program */}
+            <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+              <CardHeader className="bg-gradient-to-r from-fuchsia-500 to-pink-500 text-white rounded-t-lg">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Users className="h-5 w-5" />
+                  Different Coverage per Program ({comparison.providerDiffs.length})
+                </CardTitle>
+                <p className="text-sm text-white/80">
+                  Providers active in both programs who cover different states in each
+                </p>
+              </CardHeader>
+              <CardContent className="pt-4">
+                {comparison.providerDiffs.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">None</div>
+                ) : (
+                  <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>User</TableHead>
+                          <TableHead className="text-right">Shared</TableHead>
+                          <TableHead>HRT Only</TableHead>
+                          <TableHead>TRT Only</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.providerDiffs.map((diff) => (
+                          <TableRow key={diff.providerId}>
+                            <TableCell className="font-medium whitespace-nowrap">
+                              <Link href={getProviderRoute(diff.providerId)} className="hover:underline">
+                                {diff.name}
+                              </Link>
+                            </TableCell>
+                            <TableCell className="text-right">{diff.shared}</TableCell>
+                            <TableCell className="text-sm text-emerald-700">{diff.hrtOnly.join(", ") || "—"}</TableCell>
+                            <TableCell className="text-sm text-blue-700">{diff.trtOnly.join(", ") || "—"}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
       </main>
 
       {/* Footer */}
       <footer className="border-t mt-12 bg-white/50 backdrop-blur-sm">
         <div className="container mx-auto px-4 py-4">
           <p className="text-xs text-center text-muted-foreground">
-            Resource Pool Viewer • Reports exclude highlighted/backup providers per state
+            Resource Pool Viewer • Reports count primary providers by default and skip excluded providers per state
           </p>
         </div>
       </footer>
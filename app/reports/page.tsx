@@ -1,8 +1,10 @@
 import { getAllProgramData } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
 import { ReportsClient } from "./ReportsClient";
 
-export default function ReportsPage() {
-  const { hrt, trt, exclusions } = getAllProgramData();
+export default async function ReportsPage() {
+  const viewedSnapshot = await getViewedSnapshot();
+  const { hrt, trt, exclusions } = getAllProgramData(viewedSnapshot?.id);
 
   return (
     <ReportsClient
@@ -0,0 +1,376 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useExclusions } from "@/lib/useExclusions";
+import { CoverageRule, ExclusionsData, PoolImpact, ResourcePool } from "@/lib/types";
+import { simulateLeave } from "@/lib/simulation";
+import { toIsoDate } from "@/lib/exclusions";
+import { getProviderRoute, getStateRoute } from "@/lib/route";
+import { AlertTriangle, ArrowLeft, CheckCircle2, FlaskConical, MapPin, Search, UserX, X } from "lucide-react";
+
+interface SimulatorClientProps {
+  hrtPools: ResourcePool[];
+  trtPools: ResourcePool[];
+  serverExclusions: ExclusionsData;
+  coverageRules: CoverageRule[];
+  initialProviderIds: string[];
+}
+
+export function SimulatorClient({
+  hrtPools,
+  trtPools,
+  serverExclusions,
+  coverageRules,
+  initialProviderIds,
+}: SimulatorClientProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(initialProviderIds));
+  const [providerQuery, setProviderQuery] = useState("");
+  const [startDate, setStartDate] = useState(() => toIsoDate(new Date()));
+  const [endDate, setEndDate] = useState(""); // Empty for a permanent departure
+
+  const { exclusions, excludedUsers, isLoaded } = useExclusions(serverExclusions);
+
+  const pools = useMemo(() => [...hrtPools, ...trtPools], [hrtPools, trtPools]);
+
+  // Every provider listed in a pool, by name
+  const providers = useMemo(() => {
+    const byId = new Map<string, string>();
+    pools.forEach((pool) => pool.members.forEach((m) => byId.set(m.providerId, m.name)));
+    return Array.from(byId.entries())
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [pools]);
+  const providerNames = useMemo(() => new Map(providers.map((p) => [p.id, p.name])), [providers]);
+
+  const isRangeValid = !endDate || endDate >= startDate;
+
+  const impacts = useMemo(() => {
+    if (!isRangeValid) return [];
+    return simulateLeave(
+      { providerIds: Array.from(selectedIds), startDate, endDate: endDate || undefined },
+      pools,
+      { excludedUsers, stateExclusions: exclusions },
+      coverageRules
+    );
+  }, [selectedIds, startDate, endDate, isRangeValid, pools, excludedUsers, exclusions, coverageRules]);
+
+  const toggleProvider = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 flex items-center justify-center">
+        <div className="text-muted-foreground animate-pulse">Loading...</div>
+      </div>
+    );
+  }
+
+  const query = providerQuery.toLowerCase();
+  const visibleProviders = providers.filter((p) => !query || p.name.toLowerCase().includes(query));
+  // Pools the leave takes below their minimum, and pools that were short already
+  const newlyShort = impacts.filter((i) => !i.alreadyShort);
+  const alreadyShort = impacts.filter((i) => i.alreadyShort);
+  const emptied = newlyShort.filter((i) => i.activeAfter === 0).length;
+  const affectedStates = new Set(newlyShort.map((i) => `${i.pool.program}|${i.pool.state}`)).size;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-10 bg-gradient-to-r from-violet-600 via-purple-600 to-indigo-600 text-white shadow-lg">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="gap-2 text-white hover:bg-white/20">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                <div className="p-2 bg-white/20 rounded-lg">
+                  <FlaskConical className="h-6 w-6" />
+                </div>
+                Leave Simulator
+              </h1>
+              <p className="text-sm text-white/80 mt-1">
+                See which pools would lose coverage before approving leave or offboarding
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Scenario */}
+        <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-4 space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="leave-start" className="text-xs text-muted-foreground">Leave starts</Label>
+                <Input
+                  id="leave-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value || toIsoDate(new Date()))}
+                  className="w-[150px]"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="leave-end" className="text-xs text-muted-foreground">Last day away (blank if leaving for good)</Label>
+                <Input
+                  id="leave-end"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="w-[150px]"
+                />
+              </div>
+              {!isRangeValid && (
+                <p className="text-sm text-red-600">The leave must end on or after its first day.</p>
+              )}
+            </div>
+
+            {selectedIds.size > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                {Array.from(selectedIds).map((id) => (
+                  <Badge key={id} variant="secondary" className="gap-1 bg-violet-100 text-violet-800">
+                    {providerNames.get(id) || id}
+                    <button type="button" aria-label={`Remove ${providerNames.get(id) || id}`} onClick={() => toggleProvider(id)}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())} className="h-7 px-2 text-xs">
+                  Clear
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="relative max-w-sm">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Find a provider..."
+                  value={providerQuery}
+                  onChange={(e) => setProviderQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-1 max-h-48 overflow-y-auto rounded-md border p-2">
+                {visibleProviders.map((p) => (
+                  <label key={p.id} className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-muted/50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(p.id)}
+                      onChange={() => toggleProvider(p.id)}
+                      className="h-4 w-4 accent-violet-600"
+                    />
+                    {p.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Summary Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card className="bg-gradient-to-br from-violet-500 to-purple-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <UserX className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{selectedIds.size}</p>
+                  <p className="text-xs text-white/80">Providers Leaving</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-orange-500 to-red-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <AlertTriangle className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{newlyShort.length}</p>
+                  <p className="text-xs text-white/80">Pools Losing Coverage</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-rose-500 to-red-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <UserX className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{emptied}</p>
+                  <p className="text-xs text-white/80">Pools Left Empty</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-gradient-to-br from-amber-500 to-orange-600 text-white border-0 shadow-lg">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <MapPin className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold">{affectedStates}</p>
+                  <p className="text-xs text-white/80">States Affected</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Impact */}
+        <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader className="bg-gradient-to-r from-red-500 to-rose-500 text-white rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <AlertTriangle className="h-5 w-5" />
+              Pools Below Minimum ({newlyShort.length})
+            </CardTitle>
+            <p className="text-sm text-white/80">
+              Minimums come from the coverage rules; pools without a rule need one active primary provider
+            </p>
+          </CardHeader>
+          <CardContent className="pt-4">
+            {selectedIds.size === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Pick one or more providers to simulate their leave.
+              </div>
+            ) : newlyShort.length === 0 ? (
+              <div className="flex items-center justify-center gap-2 py-8 text-emerald-700">
+                <CheckCircle2 className="h-4 w-4" />
+                Every pool keeps its minimum coverage.
+              </div>
+            ) : (
+              <ImpactTable impacts={newlyShort} />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pools short before the leave */}
+        {alreadyShort.length > 0 && (
+          <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+            <CardHeader className="bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-t-lg">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <AlertTriangle className="h-5 w-5" />
+                Already Below Minimum ({alreadyShort.length})
+              </CardTitle>
+              <p className="text-sm text-white/80">
+                Pools that were short before the leave and lose one of the leaving providers
+              </p>
+            </CardHeader>
+            <CardContent className="pt-4">
+              <ImpactTable impacts={alreadyShort} />
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
+
+interface ImpactTableProps {
+  impacts: PoolImpact[];
+}
+
+/**
+ * One row per affected pool, with who is leaving and who could cover it.
+ */
+function ImpactTable({ impacts }: ImpactTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Pool</TableHead>
+            <TableHead className="text-right">Active Primary</TableHead>
+            <TableHead className="text-right">Needs</TableHead>
+            <TableHead>Leaving</TableHead>
+            <TableHead>Worst On</TableHead>
+            <TableHead>Could Cover</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {impacts.map((impact) => {
+            const { pool } = impact;
+            return (
+              <TableRow
+                key={`${pool.program}-${pool.state}-${pool.visitType}`}
+                className={impact.activeAfter === 0 ? "bg-red-50" : ""}
+              >
+                <TableCell className="whitespace-nowrap">
+                  <Badge className={pool.program === "HRT" ? "bg-emerald-600" : "bg-blue-600"}>{pool.program}</Badge>{" "}
+                  <Link href={getStateRoute(pool.program, pool.state)} className="font-medium hover:underline">
+                    {pool.state}
+                  </Link>
+                  <span className="text-xs text-muted-foreground ml-1">({pool.visitType})</span>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {impact.activeBefore} → <span className="font-semibold text-red-700">{impact.activeAfter}</span>
+                </TableCell>
+                <TableCell className="text-right">{impact.minimum}</TableCell>
+                <TableCell className="text-sm">{impact.lost.map((m) => m.name).join(", ")}</TableCell>
+                <TableCell className="text-sm whitespace-nowrap">{impact.date}</TableCell>
+                <TableCell>
+                  {impact.candidates.length === 0 ? (
+                    <span className="text-sm text-muted-foreground">No one else is active in this state</span>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {impact.candidates.map((c) => (
+                        <Link key={c.providerId} href={getProviderRoute(c.providerId)}>
+                          <Badge
+                            variant="outline"
+                            className="hover:bg-muted"
+                            title={`Active in ${c.sources.map((s) => `${s.program} ${s.visitType}`).join(", ")}`}
+                          >
+                            {c.name}
+                            {c.tier === "backup" && <span className="ml-1 text-slate-500">(back-up)</span>}
+                            <span className="ml-1 text-muted-foreground">
+                              · {Array.from(new Set(c.sources.map((s) => (s.program === pool.program ? s.visitType : s.program)))).join(", ")}
+                            </span>
+                          </Badge>
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
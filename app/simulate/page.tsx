@@ -0,0 +1,26 @@
+import { getAllProgramData, loadCoverageRules } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
+import { SimulatorClient } from "./SimulatorClient";
+
+interface PageProps {
+  searchParams: Promise<{
+    providers?: string; // Comma-separated provider IDs to preselect
+  }>;
+}
+
+export default async function SimulatePage({ searchParams }: PageProps) {
+  const { providers } = await searchParams;
+  const viewedSnapshot = await getViewedSnapshot();
+  const { hrt, trt, exclusions } = getAllProgramData(viewedSnapshot?.id);
+  const { rules } = loadCoverageRules();
+
+  return (
+    <SimulatorClient
+      hrtPools={hrt}
+      trtPools={trt}
+      serverExclusions={exclusions}
+      coverageRules={rules}
+      initialProviderIds={(providers || "").split(",").filter(Boolean)}
+    />
+  );
+}
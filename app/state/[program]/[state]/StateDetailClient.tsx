@@ -6,84 +6,150 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { Card, CardContent } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SearchBar } from "@/components/SearchBar";
 import { UserTable } from "@/components/UserTable";
 import { ExportButton } from "@/components/ExportButton";
+import { TierFilterSelect } from "@/components/TierFilterSelect";
+import { ExclusionDetailsBar } from "@/components/ExclusionDetailsBar";
+import { ExclusionHistoryControls } from "@/components/ExclusionHistoryControls";
+import { PoolAnnotationBadges } from "@/components/PoolAnnotationBadges";
+import { BulkActionsBar } from "@/components/BulkActionsBar";
+import { ExclusionChangeConfirm } from "@/components/ExclusionChangeConfirm";
 import { useExclusions } from "@/lib/useExclusions";
-import { ResourcePool, ExclusionsData } from "@/lib/types";
-import { ArrowLeft, Users, UserX, MapPin } from "lucide-react";
+import { ResourcePool, Program, VisitType, ExclusionsData, ExclusionChange, TierFilter } from "@/lib/types";
+import { assignmentKey } from "@/lib/exclusions";
+import { dedupeMembers, filterMembersByTier, groupPoolsByState, mergePoolAnnotations } from "@/lib/parseResourcePoolCsv";
+import { ArrowLeft, UserX, MapPin, UserPlus2, RefreshCw, AlertTriangle } from "lucide-react";
 
 interface StateDetailClientProps {
-  pool: ResourcePool;
+  program: Program;
+  state: string;
+  pools: ResourcePool[]; // Every visit type's pool for the state
   serverExclusions: ExclusionsData;
 }
 
+type ViewMode = VisitType | "side-by-side";
+
+const visitTypeStyles: Record<VisitType, { icon: typeof RefreshCw; header: string; card: string }> = {
+  Initial: { icon: UserPlus2, header: "from-emerald-500 to-teal-500", card: "from-emerald-500 to-green-600" },
+  "Follow Up": { icon: RefreshCw, header: "from-blue-500 to-indigo-500", card: "from-blue-500 to-cyan-600" },
+};
+
 export function StateDetailClient({
-  pool,
+  program,
+  state,
+  pools,
   serverExclusions,
 }: StateDetailClientProps) {
   const [searchQuery, setSearchQuery] = useState("");
-  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [tierFilter, setTierFilter] = useState<TierFilter>("primary");
+  const [viewMode, setViewMode] = useState<ViewMode>("side-by-side");
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [pendingChange, setPendingChange] = useState<{ title: string; change: ExclusionChange } | null>(null);
 
   const {
-    isExcluded,
+    getExclusion,
+    getPoolPartition,
     toggleExcluded,
+    planExclusions,
+    applyExclusions,
+    exclusionDetails,
+    setExclusionDetails,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    recentChanges,
+    actor,
+    setActor,
     showExcluded,
     setShowExcluded,
     isLoaded,
   } = useExclusions(serverExclusions);
 
-  // Get users list with deduplication based on toggle
-  const baseUsers = useMemo(() => {
-    if (showDuplicates) {
-      return pool.users;
-    }
-    return [...new Set(pool.users)];
-  }, [pool.users, showDuplicates]);
+  const entry = useMemo(
+    () => groupPoolsByState(pools).get(state) || { initial: null, followUp: null },
+    [pools, state]
+  );
 
-  // Filter and map users - using state-specific exclusion check
-  const filteredUsers = useMemo(() => {
+  // Providers listed in each visit type, at any tier
+  const providerIds = useMemo(() => {
+    const idsOf = (pool: ResourcePool | null) => new Set((pool?.members || []).map((m) => m.providerId));
+    return { Initial: idsOf(entry.initial), "Follow Up": idsOf(entry.followUp) };
+  }, [entry]);
+
+  // Members of each visit type with exclusion status, filters applied
+  const sections = useMemo(() => {
     const query = searchQuery.toLowerCase();
-    
-    return baseUsers
-      .map((name) => ({
-        name,
-        isExcluded: isExcluded(name, pool.state, pool.program),
-      }))
-      .filter((user) => {
-        // Filter by search
-        if (query && !user.name.toLowerCase().includes(query)) {
-          return false;
-        }
-        // Filter by exclusion status
-        if (!showExcluded && user.isExcluded) {
-          return false;
-        }
-        return true;
-      })
-      .sort((a, b) => a.name.localeCompare(b.name));
-  }, [baseUsers, searchQuery, isExcluded, showExcluded, pool.state, pool.program]);
-
-  // Stats
-  const stats = useMemo(() => {
-    const total = baseUsers.length;
-    const excluded = baseUsers.filter((u) => isExcluded(u, pool.state, pool.program)).length;
-    const active = total - excluded;
-    return { total, excluded, active };
-  }, [baseUsers, isExcluded, pool.state, pool.program]);
-
-  // Export data
-  const exportData = useMemo(() => {
-    return filteredUsers.map((u) => ({
-      name: u.name,
-      isExcluded: u.isExcluded,
-    }));
-  }, [filteredUsers]);
-
-  // Handle toggle with state context
-  const handleToggleExcluded = (name: string) => {
-    toggleExcluded(name, pool.state, pool.program);
+
+    return ([["Initial", entry.initial], ["Follow Up", entry.followUp]] as const).map(([visitType, pool]) => {
+      const otherIds = providerIds[visitType === "Initial" ? "Follow Up" : "Initial"];
+      const baseMembers = filterMembersByTier(pool?.members || [], tierFilter);
+      const excluded = new Set(pool ? getPoolPartition(pool).excluded : []);
+
+      const users = baseMembers
+        .map((member) => ({
+          providerId: member.providerId,
+          name: member.name,
+          state,
+          visitType,
+          tier: member.tier,
+          order: member.order,
+          exclusion: getExclusion(member.name, state, program, visitType),
+          isExcluded: excluded.has(member),
+          highlight: otherIds.has(member.providerId) ? undefined : `${visitType} only`,
+        }))
+        .filter((user) => {
+          // Filter by search
+          if (query && !user.name.toLowerCase().includes(query)) {
+            return false;
+          }
+          // Filter by exclusion status
+          if (!showExcluded && user.isExcluded) {
+            return false;
+          }
+          return true;
+        })
+        .sort((a, b) => a.order - b.order);
+
+      const excludedCount = baseMembers.filter((m) => excluded.has(m)).length;
+      return {
+        visitType,
+        pool,
+        users,
+        total: baseMembers.length,
+        active: baseMembers.length - excludedCount,
+        excluded: excludedCount,
+        oneTypeOnly: baseMembers.filter((m) => !otherIds.has(m.providerId)).length,
+      };
+    });
+  }, [entry, providerIds, tierFilter, searchQuery, showExcluded, getPoolPartition, getExclusion, state, program]);
+
+  // Providers listed in only one of the two visit types
+  const oneTypeOnly = useMemo(() => {
+    const ids = new Set([...providerIds.Initial, ...providerIds["Follow Up"]]);
+    return [...ids].filter((id) => !providerIds.Initial.has(id) || !providerIds["Follow Up"].has(id)).length;
+  }, [providerIds]);
+
+  // Ask for confirmation before excluding or including every checked row
+  const handleBulkToggle = (exclude: boolean) => {
+    const targets = sections.flatMap(({ visitType, pool }) =>
+      dedupeMembers(pool?.members || [])
+        .filter((member) => selectedKeys.has(assignmentKey({ ...member, state, visitType })))
+        .map((member) => ({ name: member.name, program, state, visitType }))
+    );
+    setPendingChange({
+      title: `${exclude ? "Exclude" : "Include"} ${targets.length} selected assignments`,
+      change: planExclusions(targets, exclude),
+    });
+  };
+
+  const handleConfirmChange = () => {
+    if (pendingChange) applyExclusions(pendingChange.change, pendingChange.title);
+    setPendingChange(null);
+    setSelectedKeys(new Set());
   };
 
   if (!isLoaded) {
@@ -94,7 +160,8 @@ export function StateDetailClient({
     );
   }
 
-  const isHRT = pool.program === "HRT";
+  const isHRT = program === "HRT";
+  const visibleSections = sections.filter((s) => viewMode === "side-by-side" || s.visitType === viewMode);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
@@ -110,12 +177,13 @@ export function StateDetailClient({
             </Link>
             <div className="flex items-center gap-3">
               <Badge className={`${isHRT ? 'bg-emerald-700' : 'bg-blue-700'}`}>
-                {pool.program}
+                {program}
               </Badge>
               <h1 className="text-xl font-bold flex items-center gap-2">
                 <MapPin className="h-5 w-5" />
-                {pool.state}
+                {state}
               </h1>
+              <PoolAnnotationBadges annotations={mergePoolAnnotations(pools)} />
             </div>
           </div>
         </div>
@@ -123,42 +191,51 @@ export function StateDetailClient({
 
       <main className="container mx-auto px-4 py-6 space-y-6">
         {/* Stats */}
-        <div className="grid grid-cols-3 gap-4">
-          <Card className="bg-gradient-to-br from-violet-500 to-purple-600 text-white border-0 shadow-lg">
-            <CardContent className="pt-4">
-              <div className="flex items-center gap-3">
-                <div className="p-2 rounded-lg bg-white/20">
-                  <Users className="h-5 w-5" />
-                </div>
-                <div>
-                  <p className="text-2xl font-bold">{stats.total}</p>
-                  <p className="text-xs text-white/80">Total Users</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-          <Card className="bg-gradient-to-br from-emerald-500 to-green-600 text-white border-0 shadow-lg">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {sections.map((section) => {
+            const style = visitTypeStyles[section.visitType];
+            const Icon = style.icon;
+            return (
+              <Card key={section.visitType} className={`bg-gradient-to-br ${style.card} text-white border-0 shadow-lg`}>
+                <CardContent className="pt-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-white/20">
+                      <Icon className="h-5 w-5" />
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold">
+                        {section.active}
+                        <span className="text-sm font-normal text-white/80"> / {section.total}</span>
+                      </p>
+                      <p className="text-xs text-white/80">{section.visitType} Active</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+          <Card className="bg-gradient-to-br from-amber-500 to-orange-600 text-white border-0 shadow-lg">
             <CardContent className="pt-4">
               <div className="flex items-center gap-3">
                 <div className="p-2 rounded-lg bg-white/20">
-                  <Users className="h-5 w-5" />
+                  <UserX className="h-5 w-5" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold">{stats.active}</p>
-                  <p className="text-xs text-white/80">Active</p>
+                  <p className="text-2xl font-bold">{sections[0].excluded + sections[1].excluded}</p>
+                  <p className="text-xs text-white/80">Excluded</p>
                 </div>
               </div>
             </CardContent>
           </Card>
-          <Card className="bg-gradient-to-br from-amber-500 to-orange-600 text-white border-0 shadow-lg">
+          <Card className="bg-gradient-to-br from-rose-500 to-red-600 text-white border-0 shadow-lg">
             <CardContent className="pt-4">
               <div className="flex items-center gap-3">
                 <div className="p-2 rounded-lg bg-white/20">
-                  <UserX className="h-5 w-5" />
+                  <AlertTriangle className="h-5 w-5" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold">{stats.excluded}</p>
-                  <p className="text-xs text-white/80">Excluded</p>
+                  <p className="text-2xl font-bold">{oneTypeOnly}</p>
+                  <p className="text-xs text-white/80">In One Visit Type Only</p>
                 </div>
               </div>
             </CardContent>
@@ -176,7 +253,15 @@ export function StateDetailClient({
                   placeholder="Search users..."
                 />
               </div>
-              <div className="flex flex-wrap items-center gap-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as ViewMode)}>
+                  <TabsList>
+                    <TabsTrigger value="side-by-side">Side by side</TabsTrigger>
+                    <TabsTrigger value="Initial">Initial</TabsTrigger>
+                    <TabsTrigger value="Follow Up">Follow Up</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <TierFilterSelect value={tierFilter} onChange={setTierFilter} />
                 <div className="flex items-center gap-2 bg-amber-50 px-3 py-2 rounded-lg border border-amber-200">
                   <Switch
                     id="show-excluded"
@@ -187,37 +272,85 @@ export function StateDetailClient({
                     Show excluded
                   </Label>
                 </div>
-                <div className="flex items-center gap-2 bg-blue-50 px-3 py-2 rounded-lg border border-blue-200">
-                  <Switch
-                    id="show-duplicates"
-                    checked={showDuplicates}
-                    onCheckedChange={setShowDuplicates}
-                  />
-                  <Label htmlFor="show-duplicates" className="text-sm cursor-pointer text-blue-800">
-                    Show duplicates
-                  </Label>
-                </div>
-                <ExportButton
-                  users={exportData}
-                  filename={`${pool.program}_${pool.state.replace(/\s+/g, "_")}_users.csv`}
-                />
               </div>
             </div>
+            <div className="mt-4 pt-4 border-t flex flex-wrap items-end justify-between gap-4">
+              <ExclusionDetailsBar
+                details={exclusionDetails}
+                onDetailsChange={setExclusionDetails}
+                actor={actor}
+                onActorChange={setActor}
+              />
+              <ExclusionHistoryControls
+                recentChanges={recentChanges}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={undo}
+                onRedo={redo}
+              />
+            </div>
           </CardContent>
         </Card>
 
-        {/* Results info */}
-        <div className="text-sm text-muted-foreground">
-          Showing {filteredUsers.length} of {stats.total} users
-          {searchQuery && ` matching "${searchQuery}"`}
+        <BulkActionsBar
+          selectedCount={selectedKeys.size}
+          onExclude={() => handleBulkToggle(true)}
+          onInclude={() => handleBulkToggle(false)}
+          onClear={() => setSelectedKeys(new Set())}
+        />
+
+        {/* One roster per visit type */}
+        <div className={`grid gap-6 ${visibleSections.length > 1 ? "xl:grid-cols-2" : ""}`}>
+          {visibleSections.map((section) => {
+            const style = visitTypeStyles[section.visitType];
+            const Icon = style.icon;
+            return (
+              <Card key={section.visitType} className="shadow-lg border-0 bg-white/90 backdrop-blur-sm h-fit">
+                <CardHeader className={`bg-gradient-to-r ${style.header} text-white rounded-t-lg`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <Icon className="h-5 w-5" />
+                      {section.visitType}
+                    </CardTitle>
+                    <ExportButton
+                      users={section.users}
+                      filename={`${program}_${state.replace(/\s+/g, "_")}_${section.visitType.replace(/\s+/g, "_")}_users.csv`}
+                    />
+                  </div>
+                  <p className="text-sm text-white/80">
+                    Showing {section.users.length} of {section.total} users
+                    {searchQuery && ` matching "${searchQuery}"`}
+                    {section.oneTypeOnly > 0 && ` · ${section.oneTypeOnly} not listed for ${section.visitType === "Initial" ? "Follow Up" : "Initial"}`}
+                  </p>
+                </CardHeader>
+                <CardContent className="pt-4">
+                  {section.pool ? (
+                    <UserTable
+                      users={section.users}
+                      selectedKeys={selectedKeys}
+                      onSelectedKeysChange={setSelectedKeys}
+                      onToggleExcluded={(user) => toggleExcluded(user.name, state, program, section.visitType)}
+                    />
+                  ) : (
+                    <div className="text-center py-12 text-muted-foreground border rounded-lg">
+                      The sheet has no {section.visitType} column for {state}.
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
+      </main>
 
-        {/* User Table */}
-        <UserTable
-          users={filteredUsers}
-          onToggleExcluded={handleToggleExcluded}
+      {pendingChange && (
+        <ExclusionChangeConfirm
+          title={pendingChange.title}
+          change={pendingChange.change}
+          onConfirm={handleConfirmChange}
+          onCancel={() => setPendingChange(null)}
         />
-      </main>
+      )}
     </div>
   );
 }
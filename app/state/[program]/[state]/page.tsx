@@ -1,5 +1,6 @@
 import { notFound } from "next/navigation";
-import { loadProgramData, loadExclusions } from "@/lib/data";
+import { getAllProgramData } from "@/lib/data";
+import { getViewedSnapshot } from "@/lib/snapshotSelection";
 import { normalizeProgram, decodeStateParam } from "@/lib/route";
 import { StateDetailClient } from "./StateDetailClient";
 
@@ -19,18 +20,19 @@ export default async function StateDetailPage({ params }: PageProps) {
   }
 
   const state = decodeStateParam(stateParam);
-  const resourcePools = loadProgramData(program);
-  const pool = resourcePools.find((p) => p.state === state);
+  const viewedSnapshot = await getViewedSnapshot();
+  const { hrt, trt, exclusions } = getAllProgramData(viewedSnapshot?.id);
+  const pools = (program === "HRT" ? hrt : trt).filter((p) => p.state === state);
 
-  if (!pool) {
+  if (pools.length === 0) {
     notFound();
   }
 
-  const exclusions = loadExclusions();
-
   return (
     <StateDetailClient
-      pool={pool}
+      program={program}
+      state={state}
+      pools={pools}
       serverExclusions={exclusions}
     />
   );
@@ -0,0 +1,311 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ProgramTabs } from "@/components/ProgramTabs";
+import { ParseDiagnostics } from "@/components/ParseDiagnostics";
+import { RosterDiffTable } from "@/components/RosterDiffTable";
+import { ParseReport, Program, ProviderDirectory, ResourcePool, RosterSnapshotInfo } from "@/lib/types";
+import { getFatalParseProblems, parseResourcePoolCsvWithReport } from "@/lib/parseResourcePoolCsv";
+import { diffRosters } from "@/lib/rosterDiff";
+import { AlertTriangle, ArrowLeft, CheckCircle2, Layers, Upload, XCircle } from "lucide-react";
+
+interface UploadClientProps {
+  hrtPools: ResourcePool[];
+  trtPools: ResourcePool[];
+  providers: ProviderDirectory; // For resolving names in the uploaded file
+}
+
+// A parsed file waiting for confirmation
+interface UploadPreview {
+  program: Program;
+  filename: string;
+  content: string;
+  pools: ResourcePool[];
+  report: ParseReport;
+}
+
+type UploadResult =
+  | { ok: true; program: Program; poolCount: number; snapshot: RosterSnapshotInfo | null }
+  | { ok: false; error: string; problems: string[] };
+
+export function UploadClient({
+  hrtPools,
+  trtPools,
+  providers,
+}: UploadClientProps) {
+  const router = useRouter();
+  const [activeProgram, setActiveProgram] = useState<Program>("HRT");
+  const [preview, setPreview] = useState<UploadPreview | null>(null);
+  const [result, setResult] = useState<UploadResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const currentPools = activeProgram === "HRT" ? hrtPools : trtPools;
+  const fatalProblems = useMemo(() => (preview ? getFatalParseProblems(preview.report) : []), [preview]);
+  const diff = useMemo(() => (preview ? diffRosters(currentPools, preview.pools) : null), [currentPools, preview]);
+
+  const handleProgramChange = (program: Program) => {
+    setActiveProgram(program);
+    setPreview(null);
+    setResult(null);
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const program = activeProgram;
+    setResult(null);
+    file.text().then((content) => {
+      const { pools, report } = parseResourcePoolCsvWithReport(content, program, providers);
+      setPreview({ program, filename: file.name, content, pools, report });
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/roster/${preview.program.toLowerCase()}`, {
+        method: "PUT",
+        headers: { "Content-Type": "text/csv" },
+        body: preview.content,
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        setResult({
+          ok: false,
+          error: body?.error || `Upload failed with status ${response.status}`,
+          problems: Array.isArray(body?.problems) ? body.problems : [],
+        });
+        return;
+      }
+      setResult({ ok: true, program: preview.program, poolCount: body.poolCount, snapshot: body.snapshot });
+      setPreview(null);
+      // Re-render with the new roster so the next diff starts from it
+      router.refresh();
+    } catch (e) {
+      setResult({ ok: false, error: e instanceof Error ? e.message : String(e), problems: [] });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isHRT = activeProgram === "HRT";
+  const warnings = preview
+    ? preview.report.parseErrors.length + preview.report.headerAnomalies.length + preview.report.unmatchedProviders.length
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      {/* Header */}
+      <header className={`border-b sticky top-0 z-10 ${isHRT ? 'bg-gradient-to-r from-emerald-600 to-teal-600' : 'bg-gradient-to-r from-blue-600 to-indigo-600'} text-white shadow-lg`}>
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="gap-2 text-white hover:bg-white/20">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                  <div className="p-2 bg-white/20 rounded-lg">
+                    <Upload className="h-6 w-6" />
+                  </div>
+                  Upload Roster
+                </h1>
+                <p className="text-sm text-white/80 mt-1">
+                  Check a new {activeProgram} sheet and see what it changes before it replaces the current one
+                </p>
+              </div>
+            </div>
+            <ProgramTabs
+              activeProgram={activeProgram}
+              onProgramChange={handleProgramChange}
+            />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* File picker */}
+        <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="roster-file" className="text-xs text-muted-foreground">
+                  {activeProgram} CSV file
+                </Label>
+                <Input
+                  id="roster-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="w-[300px]"
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+              {preview && (
+                <>
+                  <Button
+                    onClick={handleConfirm}
+                    disabled={isSaving || fatalProblems.length > 0}
+                    className="gap-2"
+                  >
+                    <Upload className="h-4 w-4" />
+                    {isSaving ? "Replacing..." : `Replace ${preview.program} Roster`}
+                  </Button>
+                  <Button variant="ghost" onClick={() => setPreview(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                </>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground mt-3">
+              Nothing changes until you confirm. The file is checked again when it is saved, and the
+              previous roster stays available as a snapshot.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Outcome of the last upload */}
+        {result?.ok && (
+          <Card className="border-emerald-300 bg-emerald-50 shadow-md">
+            <CardContent className="pt-4">
+              <div className="flex items-start gap-3">
+                <CheckCircle2 className="h-5 w-5 text-emerald-600 shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-semibold text-emerald-800">
+                    The {result.program} roster was replaced ({result.poolCount} pools)
+                  </p>
+                  <p className="text-sm text-emerald-700">
+                    Every page now shows the new data.{" "}
+                    <Link href="/changes" className="underline">See the changes</Link>
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+        {result && !result.ok && (
+          <Card className="border-red-300 bg-red-50 shadow-md">
+            <CardContent className="pt-4">
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="h-5 w-5 text-red-600 shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-semibold text-red-800">{result.error}</p>
+                  {result.problems.length > 0 && (
+                    <ul className="text-sm text-red-700 list-disc ml-5 mt-1">
+                      {result.problems.map((problem) => (
+                        <li key={problem}>{problem}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {preview && diff && (
+          <>
+            {/* Parse status */}
+            <Card
+              className={`border-0 shadow-lg text-white ${
+                fatalProblems.length > 0
+                  ? "bg-gradient-to-br from-red-500 to-rose-600"
+                  : warnings > 0
+                    ? "bg-gradient-to-br from-amber-500 to-orange-600"
+                    : "bg-gradient-to-br from-emerald-500 to-green-600"
+              }`}
+            >
+              <CardContent className="pt-4">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div className="flex items-start gap-3">
+                    <div className="p-2 rounded-lg bg-white/20">
+                      {fatalProblems.length > 0 ? (
+                        <XCircle className="h-5 w-5" />
+                      ) : warnings > 0 ? (
+                        <AlertTriangle className="h-5 w-5" />
+                      ) : (
+                        <CheckCircle2 className="h-5 w-5" />
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-xl font-bold">{preview.filename}</p>
+                      {fatalProblems.length > 0 ? (
+                        <ul className="text-sm text-white/90 list-disc ml-5">
+                          {fatalProblems.map((problem) => (
+                            <li key={problem}>{problem}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-xs text-white/80">
+                          {warnings > 0 ? `${warnings} warning(s); review them below` : "No problems found"}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-4 gap-4 text-center">
+                    <div>
+                      <p className="text-xl font-bold">{preview.report.rowCount}</p>
+                      <p className="text-xs text-white/80">Rows</p>
+                    </div>
+                    <div>
+                      <p className="text-xl font-bold">{preview.report.poolCount}</p>
+                      <p className="text-xs text-white/80">Pools</p>
+                    </div>
+                    <div>
+                      <p className="text-xl font-bold">+{diff.addedCount}</p>
+                      <p className="text-xs text-white/80">Added</p>
+                    </div>
+                    <div>
+                      <p className="text-xl font-bold">-{diff.removedCount}</p>
+                      <p className="text-xs text-white/80">Removed</p>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Changes against the current roster */}
+            <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+              <CardHeader className="bg-gradient-to-r from-violet-500 to-purple-500 text-white rounded-t-lg">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Layers className="h-5 w-5" />
+                  Changes to the Current {preview.program} Roster ({diff.pools.length} pools)
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-4 space-y-3">
+                {diff.states.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {diff.states.map((s) => (
+                      <Badge
+                        key={s.state}
+                        variant="secondary"
+                        className={s.kind === "added" ? "bg-emerald-100 text-emerald-800" : "bg-red-100 text-red-800"}
+                      >
+                        {s.kind === "added" ? "New state" : "Dropped state"}: {s.state}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <RosterDiffTable pools={diff.pools} />
+              </CardContent>
+            </Card>
+
+            <ParseDiagnostics report={preview.report} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
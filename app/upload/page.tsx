@@ -0,0 +1,15 @@
+import { getAllProgramData } from "@/lib/data";
+import { UploadClient } from "./UploadClient";
+
+export default function UploadPage() {
+  // Uploads always replace the current roster, whichever snapshot is being viewed
+  const { hrt, trt, providers } = getAllProgramData();
+
+  return (
+    <UploadClient
+      hrtPools={hrt}
+      trtPools={trt}
+      providers={providers}
+    />
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { toIsoDate } from "@/lib/exclusions";
+
+interface AsOfDateInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Date that time-boxed exclusions are evaluated against.
+ */
+export function AsOfDateInput({ value, onChange }: AsOfDateInputProps) {
+  const today = toIsoDate(new Date());
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="as-of-date" className="text-xs text-muted-foreground">As of</Label>
+      <div className="flex items-center gap-1">
+        <Input
+          id="as-of-date"
+          type="date"
+          value={value}
+          onChange={(e) => onChange(e.target.value || today)}
+          className="w-[150px]"
+        />
+        {value !== today && (
+          <Button variant="ghost" size="sm" onClick={() => onChange(today)}>
+            Today
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { UserMinus, UserPlus, X } from "lucide-react";
+
+interface BulkActionsBarProps {
+  selectedCount: number;
+  onExclude: () => void;
+  onInclude: () => void;
+  onClear: () => void;
+  children?: ReactNode; // Extra actions for the page, e.g. program-wide exclusion
+}
+
+/**
+ * Actions for the selected assignments; hidden while nothing is selected.
+ */
+export function BulkActionsBar({
+  selectedCount,
+  onExclude,
+  onInclude,
+  onClear,
+  children,
+}: BulkActionsBarProps) {
+  if (selectedCount === 0) return null;
+
+  return (
+    <div className="sticky top-20 z-10 flex flex-wrap items-center gap-2 rounded-lg border border-violet-200 bg-violet-50/95 px-4 py-2 shadow-md backdrop-blur-sm">
+      <span className="text-sm font-medium text-violet-900 mr-2">
+        {selectedCount} selected
+      </span>
+      <Button size="sm" variant="outline" onClick={onExclude} className="gap-1 border-amber-400 text-amber-700 hover:bg-amber-100">
+        <UserMinus className="h-4 w-4" />
+        Exclude selected
+      </Button>
+      <Button size="sm" variant="outline" onClick={onInclude} className="gap-1 border-emerald-400 text-emerald-700 hover:bg-emerald-100">
+        <UserPlus className="h-4 w-4" />
+        Include selected
+      </Button>
+      {children}
+      <Button size="sm" variant="ghost" onClick={onClear} className="gap-1 ml-auto">
+        <X className="h-4 w-4" />
+        Clear selection
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { useViewedSnapshot } from "@/lib/useViewedSnapshot";
+import { RefreshCw, X } from "lucide-react";
+
+const EVENTS_PATH = "/api/data-events";
+
+interface DataUpdateBannerProps {
+  renderedVersions: Record<string, string>; // File versions the layout was rendered from
+}
+
+/**
+ * Tells the user when the roster files change on the server after the page
+ * was rendered, and re-renders the page with the new data on request.
+ * Not shown while a past snapshot is viewed, since its data never changes.
+ *
+ * The layout is not re-rendered on client-side navigation, so the versions
+ * it was rendered with go stale. Navigating to another page or refreshing
+ * renders that page from the newest files, so either one moves the baseline
+ * to the latest versions seen.
+ */
+export function DataUpdateBanner({ renderedVersions }: DataUpdateBannerProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const viewedSnapshot = useViewedSnapshot();
+  const [latestVersions, setLatestVersions] = useState<Record<string, string> | null>(null);
+  const [dismissed, setDismissed] = useState<Record<string, string> | null>(null);
+  const [baseline, setBaseline] = useState(renderedVersions);
+  const [baselineSource, setBaselineSource] = useState({ pathname, renderedVersions });
+
+  if (baselineSource.pathname !== pathname || baselineSource.renderedVersions !== renderedVersions) {
+    setBaselineSource({ pathname, renderedVersions });
+    setBaseline(baselineSource.renderedVersions !== renderedVersions ? renderedVersions : latestVersions || baseline);
+  }
+
+  const handleRefresh = () => {
+    router.refresh();
+    if (latestVersions) setBaseline(latestVersions);
+  };
+
+  useEffect(() => {
+    if (viewedSnapshot) return;
+    // EventSource reconnects by itself and is sent the current versions each time
+    const events = new EventSource(EVENTS_PATH);
+    events.addEventListener("versions", (event) => {
+      setLatestVersions(JSON.parse((event as MessageEvent<string>).data));
+    });
+    return () => events.close();
+  }, [viewedSnapshot]);
+
+  if (viewedSnapshot || !latestVersions || latestVersions === dismissed) return null;
+  const changedFiles = Object.keys(latestVersions).filter(
+    (filename) => latestVersions[filename] !== baseline[filename]
+  );
+  if (changedFiles.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-xl">
+      <div className="flex items-center justify-between gap-3 rounded-lg bg-gradient-to-r from-violet-600 to-indigo-600 text-white shadow-xl px-4 py-3">
+        <p className="text-sm">
+          <span className="font-semibold">The roster was updated</span>
+          <span className="text-white/80"> ({changedFiles.join(", ")}). Refresh to see the new data.</span>
+        </p>
+        <div className="flex items-center gap-1 shrink-0">
+          <Button
+            variant="secondary"
+            size="sm"
+            className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30"
+            onClick={handleRefresh}
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/20"
+            aria-label="Dismiss"
+            onClick={() => setDismissed(latestVersions)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ExclusionChange, ExclusionRule } from "@/lib/types";
+import { ruleEffect, ruleScopeLabel } from "@/lib/exclusions";
+import { Minus, Plus } from "lucide-react";
+
+interface ExclusionChangeConfirmProps {
+  title: string;
+  change: ExclusionChange;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal summary of the exact rule entries a bulk action will remove and add.
+ */
+export function ExclusionChangeConfirm({
+  title,
+  change,
+  onConfirm,
+  onCancel,
+}: ExclusionChangeConfirmProps) {
+  const isEmpty = change.removed.length === 0 && change.added.length === 0;
+
+  const renderRule = (rule: ExclusionRule, action: "add" | "remove", index: number) => (
+    <li
+      key={`${action}-${rule.user}-${rule.program}-${rule.state}-${rule.visitType}-${index}`}
+      className="flex flex-wrap items-center gap-2 py-1.5 text-sm"
+    >
+      {action === "add" ? (
+        <Plus className="h-3.5 w-3.5 text-emerald-600" />
+      ) : (
+        <Minus className="h-3.5 w-3.5 text-rose-600" />
+      )}
+      <Badge
+        variant="secondary"
+        className={ruleEffect(rule) === "exclude" ? "bg-amber-100 text-amber-800" : "bg-emerald-100 text-emerald-800"}
+      >
+        {ruleEffect(rule) === "exclude" ? "Exclude" : "Include"}
+      </Badge>
+      <span className="font-medium">{rule.user}</span>
+      {rule.program && (
+        <Badge className={rule.program === "HRT" ? "bg-emerald-600" : "bg-blue-600"}>{rule.program}</Badge>
+      )}
+      <span>{ruleScopeLabel(rule)}</span>
+      {rule.visitType && <span className="text-xs text-muted-foreground">({rule.visitType})</span>}
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onCancel}>
+      <Card className="w-full max-w-2xl max-h-[80vh] flex flex-col border-0 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <CardHeader className="bg-gradient-to-r from-violet-500 to-purple-500 text-white rounded-t-lg">
+          <CardTitle className="text-lg">{title}</CardTitle>
+          <p className="text-sm text-white/80">
+            {isEmpty
+              ? "Every selected assignment already has this status."
+              : `${change.removed.length} rule${change.removed.length === 1 ? "" : "s"} removed, ${change.added.length} added`}
+          </p>
+        </CardHeader>
+        <CardContent className="pt-4 overflow-y-auto space-y-4">
+          {change.removed.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold text-rose-700 mb-1">Removed</h4>
+              <ul className="divide-y">{change.removed.map((rule, i) => renderRule(rule, "remove", i))}</ul>
+            </div>
+          )}
+          {change.added.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold text-emerald-700 mb-1">Added</h4>
+              <ul className="divide-y">{change.added.map((rule, i) => renderRule(rule, "add", i))}</ul>
+            </div>
+          )}
+        </CardContent>
+        <div className="flex justify-end gap-2 border-t p-4">
+          <Button variant="outline" onClick={onCancel}>
+            {isEmpty ? "Close" : "Cancel"}
+          </Button>
+          {!isEmpty && <Button onClick={onConfirm}>Apply changes</Button>}
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ExclusionDetails, ExclusionReason } from "@/lib/types";
+import { exclusionReasonLabels } from "@/lib/exclusions";
+
+interface ExclusionDetailsBarProps {
+  details: ExclusionDetails;
+  onDetailsChange: (details: ExclusionDetails) => void;
+  actor: string;
+  onActorChange: (actor: string) => void;
+}
+
+/**
+ * Reason, note, dates and author recorded on the next exclusions made from this page.
+ * Leaving both dates empty makes the exclusion permanent.
+ */
+export function ExclusionDetailsBar({
+  details,
+  onDetailsChange,
+  actor,
+  onActorChange,
+}: ExclusionDetailsBarProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Exclusion reason</Label>
+        <Select
+          value={details.reason}
+          onValueChange={(v) => onDetailsChange({ ...details, reason: v as ExclusionReason })}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(exclusionReasonLabels) as ExclusionReason[]).map((reason) => (
+              <SelectItem key={reason} value={reason}>
+                {exclusionReasonLabels[reason]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="exclusion-note" className="text-xs text-muted-foreground">Note</Label>
+        <Input
+          id="exclusion-note"
+          value={details.note}
+          onChange={(e) => onDetailsChange({ ...details, note: e.target.value })}
+          placeholder="Why is this provider excluded?"
+          className="w-[240px]"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="exclusion-start" className="text-xs text-muted-foreground">From</Label>
+        <Input
+          id="exclusion-start"
+          type="date"
+          value={details.startDate}
+          max={details.endDate || undefined}
+          onChange={(e) => onDetailsChange({ ...details, startDate: e.target.value })}
+          className="w-[150px]"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="exclusion-end" className="text-xs text-muted-foreground">Until</Label>
+        <Input
+          id="exclusion-end"
+          type="date"
+          value={details.endDate}
+          min={details.startDate || undefined}
+          onChange={(e) => onDetailsChange({ ...details, endDate: e.target.value })}
+          className="w-[150px]"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="exclusion-actor" className="text-xs text-muted-foreground">Your name</Label>
+        <Input
+          id="exclusion-actor"
+          value={actor}
+          onChange={(e) => onActorChange(e.target.value)}
+          placeholder="Recorded on changes"
+          className="w-[160px]"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ExclusionHistoryEntry } from "@/lib/exclusionStore";
+import { History, Redo2, Undo2, X } from "lucide-react";
+
+interface ExclusionHistoryControlsProps {
+  recentChanges: ExclusionHistoryEntry[]; // Newest first
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Changes listed in the drawer
+const RECENT_LIMIT = 20;
+
+/**
+ * Undo/redo buttons, keyboard shortcuts (Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z or
+ * Ctrl+Y) and a drawer of this tab's recent exclusion changes.
+ * Render once per page so shortcuts fire once.
+ */
+export function ExclusionHistoryControls({
+  recentChanges,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+}: ExclusionHistoryControlsProps) {
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Leave text fields their own undo
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        onUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  return (
+    <>
+      <div className="flex items-end gap-1">
+        <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="gap-1">
+          <Undo2 className="h-4 w-4" />
+          Undo
+        </Button>
+        <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="gap-1">
+          <Redo2 className="h-4 w-4" />
+          Redo
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setIsDrawerOpen(true)} className="gap-1">
+          <History className="h-4 w-4" />
+          Recent changes
+        </Button>
+      </div>
+
+      {isDrawerOpen && (
+        <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={() => setIsDrawerOpen(false)}>
+          <aside
+            className="h-full w-full max-w-sm bg-white shadow-2xl flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between bg-gradient-to-r from-violet-600 to-purple-600 px-4 py-3 text-white">
+              <h2 className="font-semibold flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Recent changes
+              </h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsDrawerOpen(false)}
+                className="h-8 w-8 p-0 text-white hover:bg-white/20"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4">
+              {recentChanges.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No changes made in this tab yet.
+                </p>
+              ) : (
+                <ol className="space-y-2">
+                  {recentChanges.slice(0, RECENT_LIMIT).map((entry, index) => (
+                    <li key={`${entry.at}-${index}`} className="rounded-md border p-2 text-sm">
+                      <div className="font-medium">{entry.label}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(entry.at).toLocaleTimeString()}
+                        {" · "}
+                        {entry.change.added.length} rule{entry.change.added.length === 1 ? "" : "s"} added,{" "}
+                        {entry.change.removed.length} removed
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+            <div className="border-t p-4 flex justify-between">
+              <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} className="gap-1">
+                <Undo2 className="h-4 w-4" />
+                Undo latest
+              </Button>
+              <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} className="gap-1">
+                <Redo2 className="h-4 w-4" />
+                Redo
+              </Button>
+            </div>
+          </aside>
+        </div>
+      )}
+    </>
+  );
+}
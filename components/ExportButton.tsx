@@ -5,7 +5,7 @@ import { Download } from "lucide-react";
 import { exportUsersCsv } from "@/lib/csvExport";
 
 interface ExportButtonProps {
-  users: { name: string; state?: string; isExcluded?: boolean }[];
+  users: { name: string; state?: string; visitType?: string; isExcluded?: boolean }[];
   filename: string;
   label?: string;
 }
@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ParseReport, SkipReason } from "@/lib/types";
+import { columnLabel } from "@/lib/parseResourcePoolCsv";
+import { AlertTriangle, EyeOff, HelpCircle, Rows3 } from "lucide-react";
+
+interface ParseDiagnosticsProps {
+  report: ParseReport;
+}
+
+type SkipFilter = "all" | SkipReason;
+
+const skipReasonLabels: Record<SkipReason, string> = {
+  legend: "Legend text",
+  closed: "Closed marker",
+  "backup-marker": "Back-up marker",
+  "unmapped-column": "No state header",
+};
+
+/**
+ * What the CSV parser flagged in one sheet: header anomalies and syntax
+ * errors, names missing from the provider directory, and skipped cells.
+ */
+export function ParseDiagnostics({ report }: ParseDiagnosticsProps) {
+  const [skipFilter, setSkipFilter] = useState<SkipFilter>("all");
+
+  const filteredSkipped = useMemo(() => {
+    if (skipFilter === "all") return report.skippedCells;
+    return report.skippedCells.filter((cell) => cell.reason === skipFilter);
+  }, [report.skippedCells, skipFilter]);
+
+  return (
+    <>
+    {/* Header anomalies and CSV syntax errors */}
+    <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-t-lg">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertTriangle className="h-5 w-5" />
+          Header Anomalies ({report.headerAnomalies.length + report.parseErrors.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-4">
+        {report.headerAnomalies.length === 0 && report.parseErrors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No header problems found.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Column</TableHead>
+                <TableHead>Problem</TableHead>
+                <TableHead className="w-24 text-right">Severity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.headerAnomalies.map((anomaly, idx) => (
+                <TableRow key={`${anomaly.kind}-${idx}`}>
+                  <TableCell className="font-mono text-sm">
+                    {anomaly.column ? columnLabel(anomaly.column - 1) : "—"}
+                  </TableCell>
+                  <TableCell className="text-sm">{anomaly.message}</TableCell>
+                  <TableCell className="text-right">
+                    {anomaly.fatal ? (
+                      <Badge className="bg-red-500 text-white">Fatal</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="bg-amber-100 text-amber-800">Warning</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {report.parseErrors.map((error, idx) => (
+                <TableRow key={`parse-${idx}`}>
+                  <TableCell className="font-mono text-sm">
+                    {error.row ? `Row ${error.row}` : "—"}
+                  </TableCell>
+                  <TableCell className="text-sm">{error.message}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant="secondary" className="bg-amber-100 text-amber-800">Warning</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+
+    {/* Unmatched provider names */}
+    <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-slate-500 to-gray-600 text-white rounded-t-lg">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <HelpCircle className="h-5 w-5" />
+          Unmatched Provider Names ({report.unmatchedProviders.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-4">
+        {report.unmatchedProviders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every name matched a provider in the directory.</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mb-3">
+              These cells matched no provider or alias in the provider directory and are counted as separate providers.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Cell Text</TableHead>
+                  <TableHead>State</TableHead>
+                  <TableHead>Visit Type</TableHead>
+                  <TableHead>Did You Mean</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.unmatchedProviders.map((entry, idx) => (
+                  <TableRow key={`${entry.name}-${entry.state}-${entry.visitType}-${idx}`}>
+                    <TableCell className="font-medium">{entry.name}</TableCell>
+                    <TableCell>{entry.state}</TableCell>
+                    <TableCell>{entry.visitType}</TableCell>
+                    <TableCell>
+                      {entry.suggestions.length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {entry.suggestions.map((provider) => (
+                            <Badge key={provider.id} variant="secondary">
+                              {provider.name}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+
+    {/* Skipped cells */}
+    <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-violet-500 to-purple-500 text-white rounded-t-lg">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <EyeOff className="h-5 w-5" />
+          Skipped Cells ({report.skippedCells.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Reason</Label>
+          <Select value={skipFilter} onValueChange={(v) => setSkipFilter(v as SkipFilter)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All reasons</SelectItem>
+              {(Object.keys(skipReasonLabels) as SkipReason[]).map((reason) => (
+                <SelectItem key={reason} value={reason}>
+                  {skipReasonLabels[reason]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {filteredSkipped.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No skipped cells.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">
+                    <span className="flex items-center gap-1">
+                      <Rows3 className="h-4 w-4" />
+                      Cell
+                    </span>
+                  </TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Pool</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredSkipped.map((cell) => (
+                  <TableRow key={`${cell.row}-${cell.column}`}>
+                    <TableCell className="font-mono text-sm">
+                      {columnLabel(cell.column - 1)}{cell.row}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-md truncate" title={cell.value}>
+                      {cell.value}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {cell.state ? `${cell.state} · ${cell.visitType}` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{skipReasonLabels[cell.reason]}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { PoolAnnotation, PoolFlag } from "@/lib/types";
+import { Megaphone, Asterisk, StickyNote } from "lucide-react";
+
+interface PoolAnnotationBadgesProps {
+  annotations: PoolAnnotation[];
+  className?: string;
+}
+
+const flagStyles: Record<PoolFlag, { label?: string; className: string; icon: typeof Megaphone }> = {
+  "no-marketing": { label: "No marketing", className: "bg-rose-100 text-rose-700 border-rose-300", icon: Megaphone },
+  asterisk: { className: "bg-sky-100 text-sky-700 border-sky-300", icon: Asterisk },
+  note: { className: "bg-slate-100 text-slate-700 border-slate-300", icon: StickyNote },
+};
+
+export function PoolAnnotationBadges({ annotations, className = "" }: PoolAnnotationBadgesProps) {
+  if (annotations.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {annotations.map((annotation) => {
+        const style = flagStyles[annotation.flag];
+        const Icon = style.icon;
+        return (
+          <Badge
+            key={`${annotation.flag}-${annotation.text}`}
+            variant="outline"
+            title={annotation.text}
+            className={`text-[10px] ${style.className}`}
+          >
+            <Icon />
+            {style.label || annotation.text}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PoolMember } from "@/lib/types";
+import { PoolDiff } from "@/lib/rosterDiff";
+import { getProviderRoute } from "@/lib/route";
+import { CheckCircle2 } from "lucide-react";
+
+interface RosterDiffTableProps {
+  pools: PoolDiff[];
+}
+
+/**
+ * Providers added to and removed from each changed pool.
+ */
+export function RosterDiffTable({ pools }: RosterDiffTableProps) {
+  const renderMembers = (members: PoolMember[], sign: "+" | "-") => (
+    <div className="flex flex-wrap gap-1">
+      {members.map((member) => {
+        const label = `${sign} ${member.name}${member.tier === "backup" ? " (back-up)" : ""}`;
+        const className = sign === "+"
+          ? "bg-emerald-100 text-emerald-800 hover:bg-emerald-200"
+          : "bg-red-100 text-red-800 hover:bg-red-200";
+        return member.matched ? (
+          <Link key={member.providerId} href={getProviderRoute(member.providerId)}>
+            <Badge variant="secondary" className={className}>{label}</Badge>
+          </Link>
+        ) : (
+          <Badge key={member.providerId} variant="secondary" className={className}>{label}</Badge>
+        );
+      })}
+    </div>
+  );
+
+  if (pools.length === 0) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-6 text-emerald-700">
+        <CheckCircle2 className="h-4 w-4" />
+        No providers were added or removed
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Program</TableHead>
+          <TableHead>State</TableHead>
+          <TableHead>Visit Type</TableHead>
+          <TableHead>Added</TableHead>
+          <TableHead>Removed</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {pools.map((pool) => (
+          <TableRow key={`${pool.program}-${pool.state}-${pool.visitType}`}>
+            <TableCell>
+              <Badge className={pool.program === "HRT" ? "bg-emerald-600" : "bg-blue-600"}>{pool.program}</Badge>
+            </TableCell>
+            <TableCell className="font-medium">
+              {pool.state}
+              {pool.kind !== "changed" && (
+                <Badge variant="outline" className="ml-2 text-xs">
+                  {pool.kind === "added" ? "New pool" : "Pool removed"}
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-sm">{pool.visitType}</TableCell>
+            <TableCell>{renderMembers(pool.added, "+")}</TableCell>
+            <TableCell>{renderMembers(pool.removed, "-")}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
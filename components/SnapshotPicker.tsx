@@ -0,0 +1,51 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSwitchSnapshot, useViewedSnapshot } from "@/lib/useViewedSnapshot";
+import { RosterSnapshotInfo } from "@/lib/types";
+
+interface SnapshotPickerProps {
+  snapshots: RosterSnapshotInfo[]; // Newest first; the newest is the current roster
+}
+
+/**
+ * Shows which roster snapshot the app is rendering and switches between them.
+ */
+export function SnapshotPicker({ snapshots }: SnapshotPickerProps) {
+  const viewed = useViewedSnapshot();
+  const { switchSnapshot, isSwitching } = useSwitchSnapshot();
+
+  if (snapshots.length === 0) return null;
+  const current = snapshots[0];
+
+  return (
+    <Select
+      value={viewed?.id || current.id}
+      onValueChange={(id) => switchSnapshot(id === current.id ? null : id)}
+      disabled={isSwitching}
+    >
+      <SelectTrigger
+        size="sm"
+        className="w-[230px] bg-white/20 hover:bg-white/30 text-white border-white/30 [&_svg]:!text-white"
+        title="Roster snapshot"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {snapshots.map((snapshot) => (
+          <SelectItem key={snapshot.id} value={snapshot.id}>
+            <span suppressHydrationWarning>
+              {snapshot === current ? "Current roster" : "Roster"} · {new Date(snapshot.createdAt).toLocaleString()}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -5,18 +5,25 @@ import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ResourcePool, Program, VisitType } from "@/lib/types";
-import { getStateRoute } from "@/lib/route";
-import { groupPoolsByState } from "@/lib/parseResourcePoolCsv";
-import { MapPin, Users, ChevronDown, ChevronUp, UserMinus, UserPlus, UserPlus2, RefreshCw } from "lucide-react";
+import { ResourcePool, Program, VisitType, PoolMember, TierFilter, CoverageViolation } from "@/lib/types";
+import { assignmentKey, PoolPartition } from "@/lib/exclusions";
+import { groupViolationsByState } from "@/lib/coverage";
+import { getProviderRoute, getStateRoute } from "@/lib/route";
+import { groupPoolsByState, filterMembersByTier, mergePoolAnnotations } from "@/lib/parseResourcePoolCsv";
+import { PoolAnnotationBadges } from "@/components/PoolAnnotationBadges";
+import { MapPin, Users, AlertTriangle, ChevronDown, ChevronUp, UserMinus, UserPlus, UserPlus2, RefreshCw } from "lucide-react";
 
 interface StateGridProps {
   resourcePools: ResourcePool[];
   program: Program;
   searchQuery: string;
-  isExcluded: (name: string, state?: string, program?: Program, visitType?: VisitType) => boolean;
+  getPoolPartition: (pool: ResourcePool) => PoolPartition;
   toggleExcluded: (name: string, state: string, program: Program, visitType?: VisitType) => void;
   showExcluded: boolean;
+  tierFilter: TierFilter;
+  selectedKeys?: Set<string>; // Assignment keys of checked members; omit to hide checkboxes
+  onSelectedKeysChange?: (keys: Set<string>) => void;
+  coverageViolations?: CoverageViolation[]; // Shown as a warning badge on each affected state
 }
 
 // Color palettes for variety
@@ -35,11 +42,26 @@ export function StateGrid({
   resourcePools,
   program,
   searchQuery,
-  isExcluded,
+  getPoolPartition,
   toggleExcluded,
   showExcluded,
+  tierFilter,
+  selectedKeys,
+  onSelectedKeysChange,
+  coverageViolations = [],
 }: StateGridProps) {
   const [expandedStates, setExpandedStates] = useState<Set<string>>(new Set());
+  const selectable = !!selectedKeys && !!onSelectedKeysChange;
+
+  // Check or uncheck several assignments at once
+  const setSelected = (keys: string[], checked: boolean) => {
+    const next = new Set(selectedKeys);
+    keys.forEach((key) => {
+      if (checked) next.add(key);
+      else next.delete(key);
+    });
+    onSelectedKeysChange?.(next);
+  };
 
   const toggleExpanded = (state: string) => {
     setExpandedStates((prev) => {
@@ -56,6 +78,12 @@ export function StateGrid({
   // Group pools by state
   const groupedPools = useMemo(() => groupPoolsByState(resourcePools), [resourcePools]);
 
+  // Coverage rule violations of this program, by state
+  const violationsByState = useMemo(
+    () => groupViolationsByState(coverageViolations, program),
+    [coverageViolations, program]
+  );
+
   // Filter states based on search
   const filteredStates = useMemo(() => {
     const query = searchQuery.toLowerCase();
@@ -67,11 +95,11 @@ export function StateGrid({
       if (state.toLowerCase().includes(query)) return true;
       
       const entry = groupedPools.get(state)!;
-      const allUsers = [
-        ...(entry.initial?.users || []),
-        ...(entry.followUp?.users || []),
+      const allMembers = [
+        ...(entry.initial?.members || []),
+        ...(entry.followUp?.members || []),
       ];
-      return allUsers.some((user) => user.toLowerCase().includes(query));
+      return allMembers.some((member) => member.name.toLowerCase().includes(query));
     });
   }, [groupedPools, searchQuery]);
 
@@ -90,23 +118,37 @@ export function StateGrid({
         const isExpanded = expandedStates.has(state);
         const colorScheme = stateColors[index % stateColors.length];
 
-        // Get users for each visit type
-        const initialUsers = entry.initial?.users || [];
-        const followUpUsers = entry.followUp?.users || [];
+        // Get members for each visit type, limited to the selected tier
+        const initialMembers = filterMembersByTier(entry.initial?.members || [], tierFilter);
+        const followUpMembers = filterMembersByTier(entry.followUp?.members || [], tierFilter);
+
+        // Excluded members of each pool, from the memoized partitions
+        const excludedMembers = new Set<PoolMember>([
+          ...(entry.initial ? getPoolPartition(entry.initial).excluded : []),
+          ...(entry.followUp ? getPoolPartition(entry.followUp).excluded : []),
+        ]);
 
         // Filter by exclusion and search
         const query = searchQuery.toLowerCase();
-        const getFilteredUsers = (users: string[], visitType: VisitType) => {
-          return users
-            .filter((u) => !query || u.toLowerCase().includes(query))
-            .filter((u) => showExcluded || !isExcluded(u, state, program, visitType));
+        const getFilteredMembers = (members: PoolMember[]) => {
+          return members
+            .filter((m) => !query || m.name.toLowerCase().includes(query))
+            .filter((m) => showExcluded || !excludedMembers.has(m));
         };
 
-        const visibleInitial = getFilteredUsers(initialUsers, "Initial");
-        const visibleFollowUp = getFilteredUsers(followUpUsers, "Follow Up");
+        const visibleInitial = getFilteredMembers(initialMembers);
+        const visibleFollowUp = getFilteredMembers(followUpMembers);
         
-        const excludedInitial = initialUsers.filter((u) => isExcluded(u, state, program, "Initial")).length;
-        const excludedFollowUp = followUpUsers.filter((u) => isExcluded(u, state, program, "Follow Up")).length;
+        const excludedInitial = initialMembers.filter((m) => excludedMembers.has(m)).length;
+        const excludedFollowUp = followUpMembers.filter((m) => excludedMembers.has(m)).length;
+
+        // Every listed assignment in the state, for "select all"
+        const stateKeys = [
+          ...initialMembers.map((m) => assignmentKey({ ...m, state, visitType: "Initial" })),
+          ...followUpMembers.map((m) => assignmentKey({ ...m, state, visitType: "Follow Up" })),
+        ];
+        const allSelected = stateKeys.length > 0 && stateKeys.every((key) => selectedKeys?.has(key));
+        const violations = violationsByState.get(state) || [];
 
         return (
           <Card 
@@ -123,6 +165,25 @@ export function StateGrid({
                     {state}
                   </CardTitle>
                 </Link>
+                {violations.length > 0 && (
+                  <Link href="/coverage" title={violations.map((v) => v.message).join("\n")}>
+                    <Badge className="mr-1 gap-1 bg-red-500 hover:bg-red-600 text-white text-[10px] px-1.5">
+                      <AlertTriangle className="h-3 w-3" />
+                      {violations.length}
+                    </Badge>
+                  </Link>
+                )}
+                {selectable && (
+                  <input
+                    type="checkbox"
+                    aria-label={`Select everyone in ${state}`}
+                    title="Select everyone in this state"
+                    checked={allSelected}
+                    disabled={stateKeys.length === 0}
+                    onChange={(e) => setSelected(stateKeys, e.target.checked)}
+                    className="h-4 w-4 mr-1 accent-violet-600 cursor-pointer"
+                  />
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -136,6 +197,7 @@ export function StateGrid({
                   )}
                 </Button>
               </div>
+              <PoolAnnotationBadges annotations={mergePoolAnnotations([entry.initial, entry.followUp])} />
             </CardHeader>
             <CardContent>
               {/* Initial and Follow Up counts */}
@@ -179,14 +241,19 @@ export function StateGrid({
                       <p className="text-xs text-muted-foreground italic">No users</p>
                     ) : (
                       <div className="space-y-1">
-                        {visibleInitial.map((user, idx) => {
-                          const excluded = isExcluded(user, state, program, "Initial");
+                        {visibleInitial.map((member) => {
+                          const excluded = excludedMembers.has(member);
+                          const key = assignmentKey({ ...member, state, visitType: "Initial" });
                           return (
                             <UserRow
-                              key={`initial-${user}-${idx}`}
-                              user={user}
+                              key={`initial-${member.providerId}`}
+                              selected={selectable ? selectedKeys.has(key) : undefined}
+                              onSelect={(checked) => setSelected([key], checked)}
+                              providerId={member.providerId}
+                              user={member.name}
+                              isBackup={member.tier === "backup"}
                               excluded={excluded}
-                              onToggle={() => toggleExcluded(user, state, program, "Initial")}
+                              onToggle={() => toggleExcluded(member.name, state, program, "Initial")}
                             />
                           );
                         })}
@@ -204,14 +271,19 @@ export function StateGrid({
                       <p className="text-xs text-muted-foreground italic">No users</p>
                     ) : (
                       <div className="space-y-1">
-                        {visibleFollowUp.map((user, idx) => {
-                          const excluded = isExcluded(user, state, program, "Follow Up");
+                        {visibleFollowUp.map((member) => {
+                          const excluded = excludedMembers.has(member);
+                          const key = assignmentKey({ ...member, state, visitType: "Follow Up" });
                           return (
                             <UserRow
-                              key={`followup-${user}-${idx}`}
-                              user={user}
+                              key={`followup-${member.providerId}`}
+                              selected={selectable ? selectedKeys.has(key) : undefined}
+                              onSelect={(checked) => setSelected([key], checked)}
+                              providerId={member.providerId}
+                              user={member.name}
+                              isBackup={member.tier === "backup"}
                               excluded={excluded}
-                              onToggle={() => toggleExcluded(user, state, program, "Follow Up")}
+                              onToggle={() => toggleExcluded(member.name, state, program, "Follow Up")}
                             />
                           );
                         })}
@@ -240,12 +312,20 @@ export function StateGrid({
 }
 
 function UserRow({ 
+  providerId,
   user, 
+  isBackup,
   excluded, 
+  selected,
+  onSelect,
   onToggle 
 }: { 
+  providerId: string;
   user: string; 
+  isBackup: boolean;
   excluded: boolean; 
+  selected?: boolean; // Undefined hides the checkbox
+  onSelect: (checked: boolean) => void;
   onToggle: () => void;
 }) {
   return (
@@ -256,8 +336,27 @@ function UserRow({
           : "bg-white/60 hover:bg-white/80"
       }`}
     >
-      <span className={excluded ? "text-amber-700 line-through" : "font-medium"}>
-        {user}
+      <span className="flex items-center gap-1.5 min-w-0">
+        {selected !== undefined && (
+          <input
+            type="checkbox"
+            aria-label={`Select ${user}`}
+            checked={selected}
+            onChange={(e) => onSelect(e.target.checked)}
+            className="h-3.5 w-3.5 accent-violet-600 cursor-pointer"
+          />
+        )}
+        <Link
+          href={getProviderRoute(providerId)}
+          className={`hover:underline ${excluded ? "text-amber-700 line-through" : "font-medium"}`}
+        >
+          {user}
+        </Link>
+        {isBackup && (
+          <Badge variant="outline" className="text-[10px] px-1 border-slate-400 text-slate-600">
+            Back-up
+          </Badge>
+        )}
       </span>
       <Button
         variant={excluded ? "default" : "outline"}
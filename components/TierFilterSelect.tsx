@@ -0,0 +1,34 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { TierFilter } from "@/lib/types";
+
+interface TierFilterSelectProps {
+  value: TierFilter;
+  onChange: (value: TierFilter) => void;
+}
+
+export function TierFilterSelect({ value, onChange }: TierFilterSelectProps) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">Tier</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as TierFilter)}>
+        <SelectTrigger className="w-[150px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="primary">Primary only</SelectItem>
+          <SelectItem value="backup">Back-ups only</SelectItem>
+          <SelectItem value="all">Primary + back-ups</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
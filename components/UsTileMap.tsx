@@ -0,0 +1,301 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Program, ResourcePool, TierFilter, VisitType } from "@/lib/types";
+import { PoolPartition } from "@/lib/exclusions";
+import { filterMembersByTier } from "@/lib/parseResourcePoolCsv";
+import { getStateRoute } from "@/lib/route";
+import { findUsState } from "@/lib/states";
+import { Map as MapIcon } from "lucide-react";
+
+interface UsTileMapProps {
+  hrtPools: ResourcePool[];
+  trtPools: ResourcePool[];
+  getPoolPartition: (pool: ResourcePool) => PoolPartition;
+  tierFilter: TierFilter;
+}
+
+type ProgramChoice = Program | "both";
+type VisitTypeChoice = VisitType | "any";
+
+// Where each state sits on the 11 x 8 grid, by USPS code
+const TILE_POSITIONS: { code: string; col: number; row: number }[] = [
+  { code: "AK", col: 0, row: 0 },
+  { code: "ME", col: 10, row: 0 },
+  { code: "WI", col: 5, row: 1 },
+  { code: "VT", col: 9, row: 1 },
+  { code: "NH", col: 10, row: 1 },
+  { code: "WA", col: 0, row: 2 },
+  { code: "ID", col: 1, row: 2 },
+  { code: "MT", col: 2, row: 2 },
+  { code: "ND", col: 3, row: 2 },
+  { code: "MN", col: 4, row: 2 },
+  { code: "IL", col: 5, row: 2 },
+  { code: "MI", col: 6, row: 2 },
+  { code: "NY", col: 8, row: 2 },
+  { code: "MA", col: 9, row: 2 },
+  { code: "OR", col: 0, row: 3 },
+  { code: "NV", col: 1, row: 3 },
+  { code: "WY", col: 2, row: 3 },
+  { code: "SD", col: 3, row: 3 },
+  { code: "IA", col: 4, row: 3 },
+  { code: "IN", col: 5, row: 3 },
+  { code: "OH", col: 6, row: 3 },
+  { code: "PA", col: 7, row: 3 },
+  { code: "NJ", col: 8, row: 3 },
+  { code: "CT", col: 9, row: 3 },
+  { code: "RI", col: 10, row: 3 },
+  { code: "CA", col: 0, row: 4 },
+  { code: "UT", col: 1, row: 4 },
+  { code: "CO", col: 2, row: 4 },
+  { code: "NE", col: 3, row: 4 },
+  { code: "MO", col: 4, row: 4 },
+  { code: "KY", col: 5, row: 4 },
+  { code: "WV", col: 6, row: 4 },
+  { code: "VA", col: 7, row: 4 },
+  { code: "MD", col: 8, row: 4 },
+  { code: "DE", col: 9, row: 4 },
+  { code: "AZ", col: 1, row: 5 },
+  { code: "NM", col: 2, row: 5 },
+  { code: "KS", col: 3, row: 5 },
+  { code: "AR", col: 4, row: 5 },
+  { code: "TN", col: 5, row: 5 },
+  { code: "NC", col: 6, row: 5 },
+  { code: "SC", col: 7, row: 5 },
+  { code: "DC", col: 8, row: 5 },
+  { code: "OK", col: 3, row: 6 },
+  { code: "LA", col: 4, row: 6 },
+  { code: "MS", col: 5, row: 6 },
+  { code: "AL", col: 6, row: 6 },
+  { code: "GA", col: 7, row: 6 },
+  { code: "HI", col: 0, row: 7 },
+  { code: "TX", col: 3, row: 7 },
+  { code: "FL", col: 8, row: 7 },
+];
+
+// One square per state, named from the state registry
+const STATE_TILES = TILE_POSITIONS.map((tile) => ({ ...tile, name: findUsState(tile.code)!.name }));
+
+const GRID_COLUMNS = 11;
+const GRID_ROWS = 8;
+const TILE = 56; // Tile size in SVG units, gap included
+const GAP = 4;
+
+// Fill by active provider count; the first bucket whose limit is not exceeded wins
+const COUNT_BUCKETS = [
+  { max: 0, fill: "fill-red-400", text: "fill-white", label: "0" },
+  { max: 1, fill: "fill-amber-300", text: "fill-amber-900", label: "1" },
+  { max: 3, fill: "fill-emerald-200", text: "fill-emerald-900", label: "2–3" },
+  { max: 6, fill: "fill-emerald-400", text: "fill-white", label: "4–6" },
+  { max: Infinity, fill: "fill-emerald-700", text: "fill-white", label: "7+" },
+];
+
+interface StateCoverage {
+  pools: ResourcePool[]; // Matching pools in the selected program(s) and visit type(s)
+  activeNames: string[];
+}
+
+/**
+ * Offline tile-grid map of the US, colored by active provider count.
+ * Hovering a state shows its active roster; clicking opens its detail page.
+ */
+export function UsTileMap({ hrtPools, trtPools, getPoolPartition, tierFilter }: UsTileMapProps) {
+  const router = useRouter();
+  const [program, setProgram] = useState<ProgramChoice>("both");
+  const [visitType, setVisitType] = useState<VisitTypeChoice>("any");
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  // Pools and unique active providers per state name
+  const coverage = useMemo(() => {
+    const pools = program === "HRT" ? hrtPools : program === "TRT" ? trtPools : [...hrtPools, ...trtPools];
+    const byState = new Map<string, StateCoverage>();
+    pools
+      .filter((pool) => visitType === "any" || pool.visitType === visitType)
+      .forEach((pool) => {
+        const entry = byState.get(pool.state) || { pools: [], activeNames: [] };
+        entry.pools.push(pool);
+        const listed = new Set(entry.activeNames);
+        filterMembersByTier(getPoolPartition(pool).active, tierFilter).forEach((member) => {
+          if (!listed.has(member.name)) entry.activeNames.push(member.name);
+          listed.add(member.name);
+        });
+        byState.set(pool.state, entry);
+      });
+    return byState;
+  }, [program, visitType, hrtPools, trtPools, getPoolPartition, tierFilter]);
+
+  const openState = (state: string) => {
+    const entry = coverage.get(state);
+    if (!entry) return;
+    // Prefer HRT when both programs have the state
+    const target = entry.pools.find((pool) => pool.program === "HRT") || entry.pools[0];
+    router.push(getStateRoute(target.program, state));
+  };
+
+  const hoveredTile = STATE_TILES.find((tile) => tile.name === hovered);
+  const hoveredCoverage = hovered ? coverage.get(hovered) : undefined;
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-violet-500 to-indigo-500 text-white rounded-t-lg">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <MapIcon className="h-5 w-5" />
+          Coverage Map
+        </CardTitle>
+        <p className="text-sm text-white/80">
+          Active providers per state; hover for the roster, click to open the state
+        </p>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Program</Label>
+            <Select value={program} onValueChange={(v) => setProgram(v as ProgramChoice)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="both">Both programs</SelectItem>
+                <SelectItem value="HRT">HRT</SelectItem>
+                <SelectItem value="TRT">TRT</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Visit type</Label>
+            <Select value={visitType} onValueChange={(v) => setVisitType(v as VisitTypeChoice)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any visit type</SelectItem>
+                <SelectItem value="Initial">Initial</SelectItem>
+                <SelectItem value="Follow Up">Follow Up</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {/* Legend */}
+          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground ml-auto">
+            {COUNT_BUCKETS.map((bucket) => (
+              <span key={bucket.label} className="flex items-center gap-1">
+                <svg width="12" height="12" aria-hidden="true">
+                  <rect width="12" height="12" rx="2" className={bucket.fill} />
+                </svg>
+                {bucket.label}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <svg width="12" height="12" aria-hidden="true">
+                <rect x="0.5" y="0.5" width="11" height="11" rx="2" className="fill-slate-50 stroke-slate-300" strokeDasharray="2 2" />
+              </svg>
+              No pool
+            </span>
+          </div>
+        </div>
+
+        <div className="relative mx-auto max-w-3xl">
+          <svg
+            viewBox={`0 0 ${GRID_COLUMNS * TILE} ${GRID_ROWS * TILE}`}
+            className="w-full h-auto"
+            role="img"
+            aria-label="Map of active providers per state"
+            onMouseLeave={() => setHovered(null)}
+          >
+            {STATE_TILES.map((tile) => {
+              const entry = coverage.get(tile.name);
+              const bucket = entry && COUNT_BUCKETS.find((b) => entry.activeNames.length <= b.max)!;
+              const x = tile.col * TILE + GAP / 2;
+              const y = tile.row * TILE + GAP / 2;
+              const size = TILE - GAP;
+              return (
+                <g
+                  key={tile.code}
+                  onMouseEnter={() => setHovered(tile.name)}
+                  onClick={() => openState(tile.name)}
+                  className={entry ? "cursor-pointer" : "cursor-default"}
+                >
+                  <title>{tile.name}</title>
+                  <rect
+                    x={x}
+                    y={y}
+                    width={size}
+                    height={size}
+                    rx={6}
+                    className={`${bucket ? bucket.fill : "fill-slate-50 stroke-slate-300"} ${
+                      hovered === tile.name && entry ? "stroke-violet-700" : ""
+                    }`}
+                    strokeWidth={hovered === tile.name && entry ? 3 : 1.5}
+                    strokeDasharray={entry ? undefined : "4 3"}
+                  />
+                  <text
+                    x={x + size / 2}
+                    y={y + size / 2 - 4}
+                    textAnchor="middle"
+                    className={`text-[13px] font-semibold ${bucket ? bucket.text : "fill-slate-400"}`}
+                  >
+                    {tile.code}
+                  </text>
+                  {entry && (
+                    <text
+                      x={x + size / 2}
+                      y={y + size / 2 + 12}
+                      textAnchor="middle"
+                      className={`text-[11px] ${bucket!.text}`}
+                    >
+                      {entry.activeNames.length}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+
+          {/* Roster of the hovered state */}
+          {hoveredTile && (
+            <div
+              className="pointer-events-none absolute z-20 w-56 rounded-lg border bg-white p-3 text-sm shadow-xl"
+              style={{
+                left: `${Math.min((hoveredTile.col + 1) / GRID_COLUMNS, 0.7) * 100}%`,
+                top: `${(hoveredTile.row / GRID_ROWS) * 100}%`,
+              }}
+            >
+              <div className="font-semibold">{hoveredTile.name}</div>
+              {!hoveredCoverage ? (
+                <p className="text-xs text-muted-foreground mt-1">
+                  No {program === "both" ? "" : `${program} `}pool in this state
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground mb-1">
+                    {hoveredCoverage.activeNames.length} active
+                    {visitType !== "any" && ` · ${visitType}`}
+                    {program === "both" && ` · ${Array.from(new Set(hoveredCoverage.pools.map((p) => p.program))).join(" + ")}`}
+                  </p>
+                  {hoveredCoverage.activeNames.length === 0 ? (
+                    <p className="text-xs text-red-600">Nobody active</p>
+                  ) : (
+                    <ul className="text-xs space-y-0.5 max-h-40 overflow-hidden">
+                      {hoveredCoverage.activeNames.map((name) => (
+                        <li key={name}>{name}</li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
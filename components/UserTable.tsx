@@ -1,5 +1,7 @@
 "use client";
 
+import { Fragment, useState } from "react";
+import Link from "next/link";
 import {
   Table,
   TableBody,
@@ -10,19 +12,59 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { UserMinus, UserPlus } from "lucide-react";
+import { ExclusionRule, ProviderTier, VisitType } from "@/lib/types";
+import { assignmentKey, describeExclusion } from "@/lib/exclusions";
+import { getProviderRoute } from "@/lib/route";
+import { ChevronDown, ChevronRight, UserMinus, UserPlus } from "lucide-react";
 
-interface UserTableProps {
-  users: { name: string; state?: string; isExcluded: boolean }[];
+/**
+ * One provider assignment. State and visit type are set when the table
+ * lists more than one pool.
+ */
+export interface UserTableRow {
+  providerId?: string;
+  name: string;
+  state?: string;
+  visitType?: VisitType;
+  tier?: ProviderTier;
+  isExcluded: boolean;
+  exclusion?: ExclusionRule;
+  highlight?: string; // Short warning shown next to the name, e.g. "Initial only"
+}
+
+interface UserTableProps<T extends UserTableRow> {
+  users: T[];
   showStateColumn?: boolean;
-  onToggleExcluded: (name: string) => void;
+  showVisitTypeColumn?: boolean;
+  groupByProvider?: boolean; // One expandable row per provider, with their assignments below
+  selectedKeys?: Set<string>; // Assignment keys of checked rows; omit to hide checkboxes
+  onSelectedKeysChange?: (keys: Set<string>) => void;
+  onToggleExcluded: (user: T) => void;
 }
 
-export function UserTable({
+export function UserTable<T extends UserTableRow>({
   users,
   showStateColumn = false,
+  showVisitTypeColumn = false,
+  groupByProvider = false,
+  selectedKeys,
+  onSelectedKeysChange,
   onToggleExcluded,
-}: UserTableProps) {
+}: UserTableProps<T>) {
+  const [expandedProviders, setExpandedProviders] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (key: string) => {
+    setExpandedProviders((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
   if (users.length === 0) {
     return (
       <div className="text-center py-12 text-muted-foreground border rounded-lg">
@@ -31,65 +73,190 @@ export function UserTable({
     );
   }
 
+  const selectable = !!selectedKeys && !!onSelectedKeysChange;
+  const columnCount = 3 + (showStateColumn ? 1 : 0) + (showVisitTypeColumn ? 1 : 0);
+
+  // Check or uncheck several rows at once
+  const setSelected = (rows: T[], checked: boolean) => {
+    const next = new Set(selectedKeys);
+    rows.forEach((row) => {
+      if (checked) next.add(assignmentKey(row));
+      else next.delete(assignmentKey(row));
+    });
+    onSelectedKeysChange?.(next);
+  };
+  const isAllSelected = (rows: T[]) => rows.every((row) => selectedKeys?.has(assignmentKey(row)));
+
+  const renderCheckbox = (rows: T[], label: string) => (
+    <TableCell className="w-[40px]">
+      <input
+        type="checkbox"
+        aria-label={label}
+        checked={isAllSelected(rows)}
+        onChange={(e) => setSelected(rows, e.target.checked)}
+        className="h-4 w-4 accent-violet-600 cursor-pointer"
+      />
+    </TableCell>
+  );
+
+  const renderName = (user: UserTableRow) =>
+    user.providerId ? (
+      <Link href={getProviderRoute(user.providerId)} className="hover:underline">
+        {user.name}
+      </Link>
+    ) : (
+      user.name
+    );
+
+  const renderRow = (user: T, key: string, nested = false) => (
+    <TableRow
+      key={key}
+      className={user.isExcluded ? "bg-amber-50 dark:bg-amber-950/20" : user.highlight ? "bg-rose-50/60" : ""}
+      title={user.isExcluded && user.exclusion ? describeExclusion(user.exclusion) : undefined}
+    >
+      {selectable && renderCheckbox([user], `Select ${user.name}`)}
+      <TableCell className={nested ? "pl-10 text-muted-foreground" : "font-medium"}>
+        {!nested && renderName(user)}
+        {user.tier === "backup" && (
+          <Badge variant="outline" className={`${nested ? "" : "ml-2 "}border-slate-400 text-slate-600`}>
+            Back-up
+          </Badge>
+        )}
+        {user.highlight && (
+          <Badge variant="outline" className="ml-2 border-rose-300 bg-rose-100 text-rose-700">
+            {user.highlight}
+          </Badge>
+        )}
+      </TableCell>
+      {showStateColumn && (
+        <TableCell>
+          <Badge variant="outline">{user.state}</Badge>
+        </TableCell>
+      )}
+      {showVisitTypeColumn && (
+        <TableCell className="text-sm">{user.visitType}</TableCell>
+      )}
+      <TableCell>
+        {user.isExcluded ? (
+          <Badge variant="secondary" className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+            Excluded
+          </Badge>
+        ) : (
+          <Badge variant="secondary" className="bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200">
+            Active
+          </Badge>
+        )}
+      </TableCell>
+      <TableCell>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onToggleExcluded(user)}
+          className="h-8 px-2"
+        >
+          {user.isExcluded ? (
+            <>
+              <UserPlus className="h-4 w-4 mr-1" />
+              Include
+            </>
+          ) : (
+            <>
+              <UserMinus className="h-4 w-4 mr-1" />
+              Exclude
+            </>
+          )}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+
+  // Assignments grouped by provider, in the order providers first appear
+  const groups = new Map<string, T[]>();
+  if (groupByProvider) {
+    users.forEach((user) => {
+      const key = user.providerId || user.name;
+      groups.set(key, [...(groups.get(key) || []), user]);
+    });
+  }
+
   return (
     <div className="border rounded-lg overflow-hidden">
       <Table>
         <TableHeader>
           <TableRow className="bg-muted/50">
+            {selectable && (
+              <TableHead className="w-[40px]">
+                <input
+                  type="checkbox"
+                  aria-label="Select all"
+                  checked={isAllSelected(users)}
+                  onChange={(e) => setSelected(users, e.target.checked)}
+                  className="h-4 w-4 accent-violet-600 cursor-pointer"
+                />
+              </TableHead>
+            )}
             <TableHead className="font-semibold">User</TableHead>
             {showStateColumn && <TableHead className="font-semibold">State</TableHead>}
+            {showVisitTypeColumn && <TableHead className="font-semibold">Visit Type</TableHead>}
             <TableHead className="font-semibold w-[100px]">Status</TableHead>
             <TableHead className="font-semibold w-[120px]">Actions</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
-          {users.map((user, index) => (
-            <TableRow 
-              key={`${user.name}-${user.state || ""}-${index}`}
-              className={user.isExcluded ? "bg-amber-50 dark:bg-amber-950/20" : ""}
-            >
-              <TableCell className="font-medium">{user.name}</TableCell>
-              {showStateColumn && (
-                <TableCell>
-                  <Badge variant="outline">{user.state}</Badge>
-                </TableCell>
-              )}
-              <TableCell>
-                {user.isExcluded ? (
-                  <Badge variant="secondary" className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
-                    Excluded
-                  </Badge>
-                ) : (
-                  <Badge variant="secondary" className="bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200">
-                    Active
-                  </Badge>
-                )}
-              </TableCell>
-              <TableCell>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => onToggleExcluded(user.name)}
-                  className="h-8 px-2"
-                >
-                  {user.isExcluded ? (
-                    <>
-                      <UserPlus className="h-4 w-4 mr-1" />
-                      Include
-                    </>
-                  ) : (
-                    <>
-                      <UserMinus className="h-4 w-4 mr-1" />
-                      Exclude
-                    </>
-                  )}
-                </Button>
-              </TableCell>
-            </TableRow>
-          ))}
+          {groupByProvider
+            ? Array.from(groups.entries()).map(([key, assignments]) => {
+                const isExpanded = expandedProviders.has(key);
+                const excludedCount = assignments.filter((a) => a.isExcluded).length;
+                const stateCount = new Set(assignments.map((a) => a.state)).size;
+                return (
+                  <Fragment key={key}>
+                    <TableRow className="bg-muted/20">
+                      {selectable && renderCheckbox(assignments, `Select all of ${assignments[0].name}'s assignments`)}
+                      <TableCell className="font-medium" colSpan={columnCount - 2}>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleExpanded(key)}
+                            className="h-6 w-6 p-0"
+                          >
+                            {isExpanded ? (
+                              <ChevronDown className="h-4 w-4" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4" />
+                            )}
+                          </Button>
+                          {renderName(assignments[0])}
+                          <span className="text-xs text-muted-foreground">
+                            {stateCount} state{stateCount === 1 ? "" : "s"}, {assignments.length} assignment{assignments.length === 1 ? "" : "s"}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell colSpan={2}>
+                        {excludedCount === 0 ? (
+                          <Badge variant="secondary" className="bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200">
+                            Active
+                          </Badge>
+                        ) : excludedCount === assignments.length ? (
+                          <Badge variant="secondary" className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                            Excluded
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary" className="bg-amber-50 text-amber-700 dark:bg-amber-950 dark:text-amber-300">
+                            {excludedCount} of {assignments.length} excluded
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && assignments.map((user, index) =>
+                      renderRow(user, `${assignmentKey(user)}|${index}`, true)
+                    )}
+                  </Fragment>
+                );
+              })
+            : users.map((user, index) => renderRow(user, `${assignmentKey(user)}|${index}`))}
         </TableBody>
       </Table>
     </div>
   );
 }
-
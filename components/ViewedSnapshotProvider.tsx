@@ -0,0 +1,50 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ViewedSnapshotContext, useSwitchSnapshot } from "@/lib/useViewedSnapshot";
+import { RosterSnapshotInfo } from "@/lib/types";
+import { History } from "lucide-react";
+
+interface ViewedSnapshotProviderProps {
+  snapshot: RosterSnapshotInfo | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Tell pages which past snapshot they show, with a banner above every page
+ * while one is viewed.
+ */
+export function ViewedSnapshotProvider({ snapshot, children }: ViewedSnapshotProviderProps) {
+  const { switchSnapshot, isSwitching } = useSwitchSnapshot();
+
+  return (
+    <ViewedSnapshotContext.Provider value={snapshot}>
+      {snapshot && (
+        <div className="bg-gradient-to-r from-amber-500 to-orange-500 text-white shadow-md">
+          <div className="container mx-auto px-4 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <p className="text-sm flex items-center gap-2">
+              <History className="h-4 w-4 shrink-0" />
+              <span>
+                Viewing the roster as of{" "}
+                <span className="font-semibold" suppressHydrationWarning>
+                  {new Date(snapshot.createdAt).toLocaleString()}
+                </span>
+                . Exclusions are shown as they were then and cannot be changed.
+              </span>
+            </p>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="bg-white/20 hover:bg-white/30 text-white border-white/30"
+              disabled={isSwitching}
+              onClick={() => switchSnapshot(null)}
+            >
+              Back to current roster
+            </Button>
+          </div>
+        </div>
+      )}
+      {children}
+    </ViewedSnapshotContext.Provider>
+  );
+}
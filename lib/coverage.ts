@@ -0,0 +1,215 @@
+import {
+  CoverageRule,
+  CoverageRuleType,
+  CoverageViolation,
+  Program,
+  ResourcePool,
+  VisitType,
+} from "./types";
+import { PoolPartition } from "./exclusions";
+import { findUsState } from "./states";
+
+const RULE_TYPES: CoverageRuleType[] = ["min-active", "max-states", "backup-required"];
+const PROGRAMS: Program[] = ["HRT", "TRT"];
+const VISIT_TYPES: VisitType[] = ["Initial", "Follow Up"];
+
+export const coverageRuleTypeLabels: Record<CoverageRuleType, string> = {
+  "min-active": "Minimum active providers",
+  "max-states": "Maximum states per provider",
+  "backup-required": "Back-up required",
+};
+
+/**
+ * Validate the rules array of coverage-rules.json.
+ * Invalid entries are skipped and described in errors so one typo does not
+ * switch off every other rule.
+ */
+export function parseCoverageRules(value: unknown): { rules: CoverageRule[]; errors: string[] } {
+  const rules: CoverageRule[] = [];
+  const errors: string[] = [];
+  if (!Array.isArray(value)) {
+    return { rules, errors: ['Expected a "rules" array'] };
+  }
+
+  const seenIds = new Set<string>();
+  value.forEach((item, index) => {
+    const label = `Rule ${index + 1}`;
+    if (!item || typeof item !== "object") {
+      errors.push(`${label}: expected an object`);
+      return;
+    }
+    const { id, type, description, program, state, visitType, min, max } = item as Record<string, unknown>;
+    const ruleId = typeof id === "string" && id.trim() ? id.trim() : `rule-${index + 1}`;
+
+    if (!RULE_TYPES.includes(type as CoverageRuleType)) {
+      errors.push(`${label}: type must be one of ${RULE_TYPES.join(", ")}`);
+      return;
+    }
+    if (seenIds.has(ruleId)) {
+      errors.push(`${label}: duplicate id "${ruleId}"`);
+      return;
+    }
+    if (program !== undefined && !PROGRAMS.includes(program as Program)) {
+      errors.push(`${label}: program must be HRT or TRT`);
+      return;
+    }
+    if (state !== undefined && (typeof state !== "string" || state.trim() === "")) {
+      errors.push(`${label}: state must be a non-empty string`);
+      return;
+    }
+    if (visitType !== undefined && !VISIT_TYPES.includes(visitType as VisitType)) {
+      errors.push(`${label}: visitType must be Initial or Follow Up`);
+      return;
+    }
+    if (type === "min-active" && !(Number.isInteger(min) && (min as number) >= 1)) {
+      errors.push(`${label}: min-active needs a whole number "min" of at least 1`);
+      return;
+    }
+    if (type === "max-states" && !(Number.isInteger(max) && (max as number) >= 1)) {
+      errors.push(`${label}: max-states needs a whole number "max" of at least 1`);
+      return;
+    }
+
+    seenIds.add(ruleId);
+    rules.push({
+      id: ruleId,
+      type: type as CoverageRuleType,
+      ...(typeof description === "string" && description.trim() ? { description: description.trim() } : {}),
+      ...(program ? { program: program as Program } : {}),
+      ...(typeof state === "string" ? { state: findUsState(state)?.name ?? state.trim() } : {}),
+      ...(visitType ? { visitType: visitType as VisitType } : {}),
+      ...(type === "min-active" ? { min: min as number } : {}),
+      ...(type === "max-states" ? { max: max as number } : {}),
+    });
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * Check whether a pool falls under a rule's program, state and visit type.
+ */
+function ruleCoversPool(rule: CoverageRule, pool: ResourcePool): boolean {
+  if (rule.program && rule.program !== pool.program) return false;
+  if (rule.state && rule.state.toLowerCase() !== pool.state.toLowerCase()) return false;
+  if (rule.visitType && rule.visitType !== pool.visitType) return false;
+  return true;
+}
+
+/**
+ * Active providers a pool needs under the min-active rules that cover it.
+ * Pools no rule covers need 1, so emptying a pool always counts as a gap.
+ */
+export function getPoolMinimum(rules: CoverageRule[], pool: ResourcePool): number {
+  return rules
+    .filter((rule) => rule.type === "min-active" && ruleCoversPool(rule, pool))
+    .reduce((minimum, rule) => Math.max(minimum, rule.min ?? 1), 1);
+}
+
+/**
+ * Short description of where a rule applies, e.g. "TRT, Texas (Initial)".
+ */
+export function coverageRuleScopeLabel(rule: CoverageRule): string {
+  const scope = `${rule.program || "HRT and TRT"}, ${rule.state || "every state"}`;
+  return rule.visitType ? `${scope} (${rule.visitType})` : scope;
+}
+
+/**
+ * Evaluate coverage rules against the active roster. min-active and
+ * max-states count primary providers only; back-ups are what
+ * backup-required checks for.
+ * Pass the partition function from useExclusions so results follow the
+ * current exclusions and as-of date.
+ */
+export function evaluateCoverageRules(
+  rules: CoverageRule[],
+  pools: ResourcePool[],
+  getPoolPartition: (pool: ResourcePool) => PoolPartition
+): CoverageViolation[] {
+  const violations: CoverageViolation[] = [];
+
+  rules.forEach((rule) => {
+    const covered = pools.filter((pool) => ruleCoversPool(rule, pool));
+
+    if (rule.type === "min-active") {
+      const expected = rule.min ?? 1;
+      covered.forEach((pool) => {
+        const actual = getPoolPartition(pool).active.filter((m) => m.tier === "primary").length;
+        if (actual >= expected) return;
+        violations.push({
+          rule,
+          program: pool.program,
+          state: pool.state,
+          visitType: pool.visitType,
+          actual,
+          expected,
+          message: `${actual} active primary ${pool.visitType} provider${actual === 1 ? "" : "s"} in ${pool.program} ${pool.state}; needs ${expected}`,
+        });
+      });
+    } else if (rule.type === "backup-required") {
+      // Any active back-up in the state's covered pools satisfies the rule
+      const byState = new Map<string, ResourcePool[]>();
+      covered.forEach((pool) => {
+        const key = `${pool.program}|${pool.state}`;
+        byState.set(key, [...(byState.get(key) || []), pool]);
+      });
+      byState.forEach((statePools) => {
+        const { program, state } = statePools[0];
+        const backups = new Set(
+          statePools.flatMap((pool) =>
+            getPoolPartition(pool).active.filter((m) => m.tier === "backup").map((m) => m.providerId)
+          )
+        );
+        if (backups.size > 0) return;
+        violations.push({
+          rule,
+          program,
+          state,
+          visitType: rule.visitType,
+          actual: 0,
+          expected: 1,
+          message: `No active back-up provider in ${program} ${state}${rule.visitType ? ` (${rule.visitType})` : ""}`,
+        });
+      });
+    } else if (rule.type === "max-states") {
+      const expected = rule.max ?? Infinity;
+      const statesByProvider = new Map<string, { name: string; states: Set<string> }>();
+      covered.forEach((pool) => {
+        getPoolPartition(pool).active.filter((m) => m.tier === "primary").forEach((member) => {
+          const entry = statesByProvider.get(member.providerId) || { name: member.name, states: new Set<string>() };
+          entry.states.add(pool.state);
+          statesByProvider.set(member.providerId, entry);
+        });
+      });
+      statesByProvider.forEach(({ name, states }, providerId) => {
+        if (states.size <= expected) return;
+        violations.push({
+          rule,
+          program: rule.program,
+          providerId,
+          providerName: name,
+          actual: states.size,
+          expected,
+          message: `${name} is active in ${states.size} ${rule.program ? `${rule.program} ` : ""}states; limit is ${expected}`,
+        });
+      });
+    }
+  });
+
+  return violations;
+}
+
+/**
+ * State-level violations of one program, keyed by state.
+ */
+export function groupViolationsByState(
+  violations: CoverageViolation[],
+  program: Program
+): Map<string, CoverageViolation[]> {
+  const byState = new Map<string, CoverageViolation[]>();
+  violations.forEach((v) => {
+    if (v.program !== program || !v.state) return;
+    byState.set(v.state, [...(byState.get(v.state) || []), v]);
+  });
+  return byState;
+}
@@ -1,3 +1,5 @@
+import { RosterDiff } from "./rosterDiff";
+
 /**
  * Export data as CSV file download.
  */
@@ -62,15 +64,50 @@ function escapeCSVField(field: string): string {
  * Export users list as CSV.
  */
 export function exportUsersCsv(
-  users: { name: string; state?: string; isExcluded?: boolean }[],
+  users: { name: string; state?: string; visitType?: string; isExcluded?: boolean }[],
   filename: string
 ): void {
   const data = users.map((user) => ({
     Name: user.name,
     ...(user.state !== undefined && { State: user.state }),
+    ...(user.visitType !== undefined && { "Visit Type": user.visitType }),
     ...(user.isExcluded !== undefined && { Excluded: user.isExcluded ? "Yes" : "No" }),
   }));
   
   downloadCsv(data, filename);
 }
 
+
+/**
+ * Export a roster diff as a change list, one row per provider added to or
+ * removed from a pool and per state added or dropped.
+ */
+export function exportRosterChangesCsv(diff: RosterDiff, filename: string): void {
+  const data: Record<string, string>[] = [
+    ...diff.states.map((change) => ({
+      Change: change.kind === "added" ? "State added" : "State dropped",
+      Program: change.program,
+      State: change.state,
+      "Visit Type": "",
+      Provider: "",
+      "Provider ID": "",
+      Tier: "",
+    })),
+    ...diff.pools.flatMap((pool) =>
+      [
+        ...pool.added.map((member) => ({ member, change: "Added" })),
+        ...pool.removed.map((member) => ({ member, change: "Removed" })),
+      ].map(({ member, change }) => ({
+        Change: change,
+        Program: pool.program,
+        State: pool.state,
+        "Visit Type": pool.visitType,
+        Provider: member.name,
+        "Provider ID": member.providerId,
+        Tier: member.tier === "backup" ? "Back-up" : "Primary",
+      }))
+    ),
+  ];
+
+  downloadCsv(data, filename);
+}
@@ -1,56 +1,554 @@
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
-import { parseResourcePoolCsv } from "./parseResourcePoolCsv";
-import { ResourcePool, Program, ExclusionsData } from "./types";
+import { parseResourcePoolCsvWithReport, createParseReport, getFatalParseProblems } from "./parseResourcePoolCsv";
+import { buildProviderIndex, resolveProvider } from "./providers";
+import { exclusionKey } from "./exclusions";
+import { parseCoverageRules } from "./coverage";
+import { findUsState } from "./states";
+import {
+  ResourcePool,
+  Program,
+  ExclusionsData,
+  ExclusionAction,
+  ExclusionAuditEntry,
+  ExclusionRule,
+  CoverageRule,
+  ProviderDirectory,
+  ParseReport,
+  LoadError,
+  RosterSnapshot,
+  RosterSnapshotInfo,
+} from "./types";
+
+const AUDIT_LOG_FILE = "exclusions-audit.jsonl";
+
+// One JSON file per snapshot, named by its ID
+const SNAPSHOT_DIRECTORY = "snapshots";
+// Compact UTC creation time, then the start of the source hash
+const SNAPSHOT_ID_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z-([0-9a-f]{12})$/;
+
+const programCsvFile = (program: Program) => (program === "HRT" ? "hrt.csv" : "trt.csv");
+
+// Files a roster is parsed from; a change to any of them is a new roster version
+const ROSTER_SOURCE_FILES = ["hrt.csv", "trt.csv", "providers.json"];
+
+// Files whose changes open pages are told about; exclusions sync on their own
+export const WATCHED_DATA_FILES = [...ROSTER_SOURCE_FILES, "coverage-rules.json"];
+
+// Loaded data by key, with the versions of the files it was loaded from
+const dataCache = new Map<string, { versions: string; value: unknown }>();
 
 /**
- * Load and parse CSV data for a program.
- * Server-side only.
+ * Identify the current version of a /data file by inode, modification time
+ * and size. Atomic writes replace the inode, so even a rewrite within the
+ * same millisecond is noticed.
+ */
+export function getDataFileVersion(filename: string): string {
+  try {
+    const stat = fs.statSync(path.join(process.cwd(), "data", filename));
+    return `${stat.ino}-${stat.mtimeMs}-${stat.size}`;
+  } catch {
+    return "missing";
+  }
+}
+
+/**
+ * Return what `load` produced last time, as long as none of the files it
+ * reads have changed since. Cached values are shared between requests, so
+ * callers must not modify them.
  */
-export function loadProgramData(program: Program): ResourcePool[] {
-  const filename = program === "HRT" ? "hrt.csv" : "trt.csv";
+function cachedByFiles<T>(key: string, filenames: string[], load: () => T): T {
+  const versions = filenames.map(getDataFileVersion).join("|");
+  const cached = dataCache.get(key);
+  if (cached && cached.versions === versions) return cached.value as T;
+
+  const value = load();
+  dataCache.set(key, { versions, value });
+  return value;
+}
+
+/**
+ * Read a file from the /data directory.
+ * Returns the error instead of throwing so callers can report it.
+ */
+function readDataFile(filename: string): { content: string | null; error: LoadError | null } {
   const filePath = path.join(process.cwd(), "data", filename);
-  
+
   try {
-    const content = fs.readFileSync(filePath, "utf-8");
-    return parseResourcePoolCsv(content, program);
+    return { content: fs.readFileSync(filePath, "utf-8"), error: null };
   } catch (error) {
     console.error(`Error loading ${filename}:`, error);
-    return [];
+    return {
+      content: null,
+      error: { file: filename, message: error instanceof Error ? error.message : String(error) },
+    };
   }
 }
 
+/**
+ * Read and parse a JSON file from the /data directory.
+ */
+function readDataJson(filename: string): { data: Record<string, unknown> | null; error: LoadError | null } {
+  const { content, error } = readDataFile(filename);
+  if (content === null) return { data: null, error };
+
+  try {
+    return { data: JSON.parse(content), error: null };
+  } catch (parseError) {
+    console.error(`Error parsing ${filename}:`, parseError);
+    return {
+      data: null,
+      error: {
+        file: filename,
+        message: parseError instanceof Error ? parseError.message : String(parseError),
+      },
+    };
+  }
+}
+
+/**
+ * Write a file to the /data directory atomically.
+ * The content goes to a temporary file that is then renamed over the
+ * original, so concurrent readers never see a partial write.
+ */
+function writeDataFile(filename: string, content: string): void {
+  const filePath = path.join(process.cwd(), "data", filename);
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  try {
+    fs.writeFileSync(tempPath, content, "utf-8");
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Append lines to a file in the /data directory, creating it if needed.
+ */
+function appendDataFile(filename: string, content: string): void {
+  fs.appendFileSync(path.join(process.cwd(), "data", filename), content, "utf-8");
+}
+
+/**
+ * Load the provider directory (canonical IDs, display names and aliases).
+ * Server-side only.
+ */
+export function loadProviderDirectory(): ProviderDirectory {
+  return cachedByFiles("providers", ["providers.json"], () => {
+    const { data } = readDataJson("providers.json");
+    return {
+      providers: Array.isArray(data?.providers) ? data.providers : [],
+    };
+  });
+}
+
+/**
+ * Load and parse CSV data for a program, with the parser's diagnostics.
+ * Read failures are recorded in the report's loadErrors.
+ * The result is parsed once per change to the CSV or provider directory.
+ * Server-side only.
+ */
+export function loadProgramDataWithReport(
+  program: Program,
+  directory: ProviderDirectory = loadProviderDirectory()
+): { pools: ResourcePool[]; report: ParseReport } {
+  const filename = programCsvFile(program);
+  const load = () => {
+    const { content, error } = readDataFile(filename);
+
+    if (content === null) {
+      const report = createParseReport(program);
+      if (error) report.loadErrors.push(error);
+      return { pools: [], report };
+    }
+    return parseResourcePoolCsvWithReport(content, program, directory);
+  };
+
+  // Only results for the directory in providers.json can be reused
+  return directory === loadProviderDirectory()
+    ? cachedByFiles(`program:${program}`, [filename, "providers.json"], load)
+    : load();
+}
+
+/**
+ * Load and parse CSV data for a program.
+ * Server-side only.
+ */
+export function loadProgramData(
+  program: Program,
+  directory: ProviderDirectory = loadProviderDirectory()
+): ResourcePool[] {
+  return loadProgramDataWithReport(program, directory).pools;
+}
+
+/**
+ * Replace a program's CSV and record the new roster as a snapshot.
+ * The file is swapped in atomically, so pages never read a half-written
+ * sheet. Callers validate the content first.
+ * Server-side only.
+ */
+export function replaceProgramCsv(program: Program, content: string): RosterSnapshotInfo | null {
+  writeDataFile(programCsvFile(program), content);
+  const providers = loadProviderDirectory();
+  return recordRosterSnapshot(
+    loadProgramData("HRT", providers),
+    loadProgramData("TRT", providers),
+    loadExclusions(providers)
+  );
+}
+
 /**
  * Load exclusions data from JSON file.
+ * User names are rewritten to the provider's canonical name so that an
+ * exclusion for "Tim" also applies to "Timothy Mack". States are mapped to
+ * their registry name the same way ("IA" -> "Iowa").
  * Server-side only.
  */
-export function loadExclusions(): ExclusionsData {
-  const filePath = path.join(process.cwd(), "data", "exclusions.json");
-  
-  try {
-    const content = fs.readFileSync(filePath, "utf-8");
-    const data = JSON.parse(content);
+export function loadExclusions(
+  directory: ProviderDirectory = loadProviderDirectory()
+): ExclusionsData {
+  const load = (): ExclusionsData => {
+    const { data } = readDataJson("exclusions.json");
+    const providerIndex = buildProviderIndex(directory);
+    const canonicalName = (name: string) =>
+      resolveProvider(providerIndex, name)?.name || name;
+
+    const excludedUsers: string[] = Array.isArray(data?.excludedUsers) ? data.excludedUsers : [];
+    const stateExclusions: ExclusionsData["stateExclusions"] = Array.isArray(data?.stateExclusions)
+      ? data.stateExclusions
+      : [];
     return {
-      excludedUsers: Array.isArray(data.excludedUsers) ? data.excludedUsers : [],
-      stateExclusions: Array.isArray(data.stateExclusions) ? data.stateExclusions : [],
+      excludedUsers: excludedUsers.map(canonicalName),
+      stateExclusions: stateExclusions.map((e) => ({
+        ...e,
+        user: canonicalName(e.user),
+        ...(typeof e.state === "string" ? { state: findUsState(e.state)?.name ?? e.state } : {}),
+      })),
     };
+  };
+
+  return directory === loadProviderDirectory()
+    ? cachedByFiles("exclusions", ["exclusions.json", "providers.json"], load)
+    : load();
+}
+
+/**
+ * Load exclusions for modification.
+ * Throws if exclusions.json exists but cannot be read, so a bad file is
+ * never overwritten with an empty list.
+ */
+function loadExclusionsForUpdate(): ExclusionsData {
+  const { error } = readDataJson("exclusions.json");
+  if (error && fs.existsSync(path.join(process.cwd(), "data", "exclusions.json"))) {
+    throw new Error(`exclusions.json could not be read: ${error.message}`);
+  }
+  // Copy the cached lists before they are changed
+  const data = loadExclusions();
+  return { excludedUsers: [...data.excludedUsers], stateExclusions: [...data.stateExclusions] };
+}
+
+/**
+ * Write exclusions to JSON file, one entry per line.
+ * Server-side only.
+ */
+export function saveExclusions(data: ExclusionsData): void {
+  const line = (e: ExclusionRule) => {
+    const fields = Object.entries(e)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${JSON.stringify(key)}: ${JSON.stringify(value)}`);
+    return `    {${fields.join(", ")}}`;
+  };
+  const content = [
+    "{",
+    `  "excludedUsers": ${JSON.stringify(data.excludedUsers)},`,
+    data.stateExclusions.length > 0
+      ? `  "stateExclusions": [\n${data.stateExclusions.map(line).join(",\n")}\n  ]`
+      : `  "stateExclusions": []`,
+    "}",
+    "",
+  ].join("\n");
+  writeDataFile("exclusions.json", content);
+}
+
+/**
+ * Record exclusion changes in the append-only audit log.
+ */
+function appendAuditEntries(action: ExclusionAction, exclusions: ExclusionRule[], actor: string): void {
+  if (exclusions.length === 0) return;
+  const at = new Date().toISOString();
+  const lines = exclusions.map((exclusion) =>
+    JSON.stringify({ action, exclusion, actor, at } satisfies ExclusionAuditEntry)
+  );
+  appendDataFile(AUDIT_LOG_FILE, lines.join("\n") + "\n");
+}
+
+/**
+ * Load the exclusion audit log, newest first.
+ * Malformed lines are skipped.
+ * Server-side only.
+ */
+export function loadExclusionAuditLog(): ExclusionAuditEntry[] {
+  const filePath = path.join(process.cwd(), "data", AUDIT_LOG_FILE);
+  if (!fs.existsSync(filePath)) return [];
+
+  const { content } = readDataFile(AUDIT_LOG_FILE);
+  const entries: ExclusionAuditEntry[] = [];
+  (content || "").split("\n").forEach((line) => {
+    if (!line.trim()) return;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.warn(`Skipping malformed ${AUDIT_LOG_FILE} line:`, line);
+    }
+  });
+  return entries.reverse();
+}
+
+/**
+ * Add exclusion rules, skipping entries that already exist.
+ * New entries are stamped with who added them and when. With `restore`
+ * (undoing a removal), entries keep the author and time they already carry.
+ * Server-side only.
+ */
+export function addExclusionRules(
+  entries: ExclusionRule[],
+  actor: string,
+  { restore = false }: { restore?: boolean } = {}
+): ExclusionsData {
+  const data = loadExclusionsForUpdate();
+  const providerIndex = buildProviderIndex(loadProviderDirectory());
+  const existing = new Set(data.stateExclusions.map(exclusionKey));
+  const createdAt = new Date().toISOString();
+  const added: ExclusionRule[] = [];
+
+  entries.forEach((entry) => {
+    const user = resolveProvider(providerIndex, entry.user)?.name || entry.user;
+    const exclusion = {
+      ...entry,
+      user,
+      createdBy: (restore && entry.createdBy) || actor,
+      createdAt: (restore && entry.createdAt) || createdAt,
+    };
+    const key = exclusionKey(exclusion);
+    if (existing.has(key)) return;
+    existing.add(key);
+    added.push(exclusion);
+  });
+
+  data.stateExclusions.push(...added);
+  saveExclusions(data);
+  appendAuditEntries("add", added, actor);
+  return data;
+}
+
+/**
+ * Remove exclusion rules that exactly match the given entries.
+ * Server-side only.
+ */
+export function removeExclusionRules(entries: ExclusionRule[], actor: string): ExclusionsData {
+  const data = loadExclusionsForUpdate();
+  const providerIndex = buildProviderIndex(loadProviderDirectory());
+  const removed = new Set(
+    entries.map((entry) =>
+      exclusionKey({ ...entry, user: resolveProvider(providerIndex, entry.user)?.name || entry.user })
+    )
+  );
+
+  const kept = data.stateExclusions.filter((e) => !removed.has(exclusionKey(e)));
+  const removedEntries = data.stateExclusions.filter((e) => removed.has(exclusionKey(e)));
+
+  data.stateExclusions = kept;
+  saveExclusions(data);
+  appendAuditEntries("remove", removedEntries, actor);
+  return data;
+}
+
+/**
+ * Load the staffing rules checked by the coverage report.
+ * Invalid rules are skipped and returned as errors.
+ * Server-side only.
+ */
+export function loadCoverageRules(): { rules: CoverageRule[]; errors: string[] } {
+  return cachedByFiles("coverage-rules", ["coverage-rules.json"], () => {
+    const { data, error } = readDataJson("coverage-rules.json");
+    if (!data) return { rules: [], errors: error ? [error.message] : [] };
+    return parseCoverageRules(data.rules);
+  });
+}
+
+/**
+ * Collect parse reports for both programs plus load failures of the JSON data files.
+ * Server-side only.
+ */
+export function loadDataHealth(): {
+  hrt: ParseReport;
+  trt: ParseReport;
+  loadErrors: LoadError[];
+} {
+  const jsonFiles = ["providers.json", "exclusions.json", "coverage-rules.json"];
+  const loadErrors = cachedByFiles("json-errors", jsonFiles, () =>
+    jsonFiles
+      .map((filename) => readDataJson(filename).error)
+      .filter((error): error is LoadError => error !== null)
+  );
+  const providers = loadProviderDirectory();
+
+  return {
+    hrt: loadProgramDataWithReport("HRT", providers).report,
+    trt: loadProgramDataWithReport("TRT", providers).report,
+    loadErrors,
+  };
+}
+
+/**
+ * Summarize the problems that leave a program empty or unusable.
+ */
+export function getDataProblems(health: ReturnType<typeof loadDataHealth>): string[] {
+  const problems: string[] = health.loadErrors.map((e) => `${e.file}: ${e.message}`);
+
+  [health.hrt, health.trt].forEach((report) => {
+    report.loadErrors.forEach((e) => problems.push(`${e.file}: ${e.message}`));
+    getFatalParseProblems(report).forEach((problem) => problems.push(`${report.program}: ${problem}`));
+  });
+
+  return problems;
+}
+
+/**
+ * Read a snapshot's creation time and hash from its ID.
+ * Returns null for anything that is not a snapshot ID, so IDs from
+ * requests can never name a file outside the snapshot directory.
+ */
+function parseSnapshotId(id: string): RosterSnapshotInfo | null {
+  const match = SNAPSHOT_ID_PATTERN.exec(id);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, hash] = match;
+  return { id, createdAt: `${year}-${month}-${day}T${hours}:${minutes}:${seconds}.000Z`, hash };
+}
+
+/**
+ * Hash the files the roster is parsed from.
+ * Returns null when neither CSV exists.
+ */
+function hashRosterSources(): string | null {
+  return cachedByFiles("roster-hash", ROSTER_SOURCE_FILES, () => {
+    const hash = crypto.createHash("sha256");
+    let hasCsv = false;
+    ROSTER_SOURCE_FILES.forEach((filename) => {
+      const filePath = path.join(process.cwd(), "data", filename);
+      const exists = fs.existsSync(filePath);
+      if (exists && filename.endsWith(".csv")) hasCsv = true;
+      hash.update(`${filename}\0`);
+      hash.update(exists ? fs.readFileSync(filePath) : "");
+      hash.update("\0");
+    });
+    return hasCsv ? hash.digest("hex").slice(0, 12) : null;
+  });
+}
+
+/**
+ * List saved roster snapshots, newest first.
+ * Server-side only.
+ */
+export function listRosterSnapshots(): RosterSnapshotInfo[] {
+  const directory = path.join(process.cwd(), "data", SNAPSHOT_DIRECTORY);
+  if (!fs.existsSync(directory)) return [];
+
+  return fs.readdirSync(directory)
+    .map((file) => (file.endsWith(".json") ? parseSnapshotId(file.slice(0, -".json".length)) : null))
+    .filter((info): info is RosterSnapshotInfo => info !== null)
+    .sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/**
+ * Find a snapshot older than the newest one.
+ * The newest snapshot is the current roster, so it returns null for that too.
+ * Server-side only.
+ */
+export function findHistoricalSnapshot(id: string): RosterSnapshotInfo | null {
+  const snapshots = listRosterSnapshots();
+  const index = snapshots.findIndex((snapshot) => snapshot.id === id);
+  return index > 0 ? snapshots[index] : null;
+}
+
+/**
+ * Load a saved roster snapshot, or null if it is missing or unreadable.
+ * Server-side only.
+ */
+export function loadRosterSnapshot(id: string): RosterSnapshot | null {
+  const info = parseSnapshotId(id);
+  if (!info) return null;
+
+  const { data } = readDataJson(`${SNAPSHOT_DIRECTORY}/${id}.json`);
+  if (!data || !Array.isArray(data.hrt) || !Array.isArray(data.trt)) return null;
+  const exclusions = (data.exclusions || {}) as Partial<ExclusionsData>;
+  return {
+    ...info,
+    hrt: data.hrt,
+    trt: data.trt,
+    exclusions: {
+      excludedUsers: Array.isArray(exclusions.excludedUsers) ? exclusions.excludedUsers : [],
+      stateExclusions: Array.isArray(exclusions.stateExclusions) ? exclusions.stateExclusions : [],
+    },
+  };
+}
+
+/**
+ * Save the parsed roster and current exclusions as a snapshot, unless the
+ * newest snapshot was parsed from the same files. Failures are logged, not
+ * thrown, so a read-only data directory never breaks a page.
+ * Server-side only.
+ */
+export function recordRosterSnapshot(
+  hrt: ResourcePool[],
+  trt: ResourcePool[],
+  exclusions: ExclusionsData
+): RosterSnapshotInfo | null {
+  const hash = hashRosterSources();
+  if (!hash || hrt.length + trt.length === 0) return null;
+
+  const latest = listRosterSnapshots()[0];
+  if (latest?.hash === hash) return latest;
+
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  const info = parseSnapshotId(`${stamp}-${hash}`)!;
+  try {
+    fs.mkdirSync(path.join(process.cwd(), "data", SNAPSHOT_DIRECTORY), { recursive: true });
+    writeDataFile(
+      `${SNAPSHOT_DIRECTORY}/${info.id}.json`,
+      JSON.stringify({ ...info, hrt, trt, exclusions } satisfies RosterSnapshot) + "\n"
+    );
   } catch (error) {
-    console.error("Error loading exclusions.json:", error);
-    return { excludedUsers: [], stateExclusions: [] };
+    console.error("Error saving roster snapshot:", error);
+    return null;
   }
+  return info;
 }
 
 /**
  * Get all program data with exclusions.
+ * With a snapshot ID, returns that saved roster and the exclusions saved
+ * with it. Otherwise the current files are loaded, and recorded as a new
+ * snapshot if they changed since the last one.
  */
-export function getAllProgramData(): {
+export function getAllProgramData(snapshotId?: string): {
   hrt: ResourcePool[];
   trt: ResourcePool[];
   exclusions: ExclusionsData;
+  providers: ProviderDirectory;
 } {
-  return {
-    hrt: loadProgramData("HRT"),
-    trt: loadProgramData("TRT"),
-    exclusions: loadExclusions(),
-  };
+  const providers = loadProviderDirectory();
+  const saved = snapshotId ? loadRosterSnapshot(snapshotId) : null;
+  if (saved) {
+    return { hrt: saved.hrt, trt: saved.trt, exclusions: saved.exclusions, providers };
+  }
+
+  const hrt = loadProgramData("HRT", providers);
+  const trt = loadProgramData("TRT", providers);
+  const exclusions = loadExclusions(providers);
+  recordRosterSnapshot(hrt, trt, exclusions);
+  return { hrt, trt, exclusions, providers };
 }
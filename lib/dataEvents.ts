@@ -0,0 +1,49 @@
+import { getDataFileVersion, WATCHED_DATA_FILES } from "./data";
+
+// How often the watched files are checked while anyone is listening
+const POLL_INTERVAL_MS = 2000;
+
+// Version of each watched file, by file name
+export type DataFileVersions = Record<string, string>;
+
+const listeners = new Set<(versions: DataFileVersions) => void>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let lastVersions: DataFileVersions = {};
+
+/**
+ * Current version of every watched /data file.
+ * Server-side only.
+ */
+export function getDataFileVersions(): DataFileVersions {
+  return Object.fromEntries(WATCHED_DATA_FILES.map((filename) => [filename, getDataFileVersion(filename)]));
+}
+
+function checkForChanges(): void {
+  const versions = getDataFileVersions();
+  const changed = WATCHED_DATA_FILES.some((filename) => versions[filename] !== lastVersions[filename]);
+  lastVersions = versions;
+  if (changed) listeners.forEach((listener) => listener(versions));
+}
+
+/**
+ * Call `listener` with the new file versions whenever a watched file changes.
+ * The files are polled because file system watchers lose track of files that
+ * are replaced by a rename on some platforms. Polling stops when the last
+ * listener unsubscribes.
+ * Server-side only.
+ */
+export function subscribeDataChanges(listener: (versions: DataFileVersions) => void): () => void {
+  listeners.add(listener);
+  if (!pollTimer) {
+    lastVersions = getDataFileVersions();
+    pollTimer = setInterval(checkForChanges, POLL_INTERVAL_MS);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+}
@@ -0,0 +1,358 @@
+import { ExclusionChange, ExclusionRule, ExclusionsData, StateExclusion } from "./types";
+import { buildExclusionIndex, ExclusionIndex, exclusionKey, isExclusionActive } from "./exclusions";
+
+const API_PATH = "/api/exclusions";
+
+// Per-browser overrides from before exclusions were shared; migrated to the server on load
+const LEGACY_STORAGE_KEY = "resourcePoolViewer_stateExclusions_v2";
+
+// Name recorded as the author of this browser's changes
+const ACTOR_STORAGE_KEY = "resourcePoolViewer_actor";
+
+// Saved changes are announced to other tabs and windows of the same browser
+const SYNC_CHANNEL = "resourcePoolViewer_exclusions";
+// Fallback for browsers without BroadcastChannel; written only to raise `storage` events
+const SYNC_STORAGE_KEY = "resourcePoolViewer_exclusionChange";
+
+interface ExclusionChangeMessage {
+  removed: ExclusionRule[];
+  added: ExclusionRule[];
+}
+
+// Undo steps kept per tab
+const MAX_HISTORY = 50;
+
+/**
+ * One undoable action: a toggle, or a whole bulk operation.
+ */
+export interface ExclusionHistoryEntry {
+  label: string;
+  change: ExclusionChange;
+  at: string; // ISO timestamp
+}
+
+export interface ExclusionsSnapshot {
+  rules: ExclusionRule[];
+  excludedUsers: string[];
+  actor: string;
+  isLoaded: boolean;
+  undoStack: ExclusionHistoryEntry[]; // Oldest first
+  redoStack: ExclusionHistoryEntry[]; // Most recently undone last
+}
+
+/*
+ * One copy of the shared exclusions per browser tab. Every useExclusions
+ * hook reads from it, so a change made in one component is seen by all of
+ * them, and compiled indexes are reused instead of rebuilt per hook.
+ */
+let snapshot: ExclusionsSnapshot = {
+  rules: [],
+  excludedUsers: [],
+  actor: "",
+  isLoaded: false,
+  undoStack: [],
+  redoStack: [],
+};
+const listeners = new Set<() => void>();
+let loadPromise: Promise<void> | null = null;
+// Requests in flight; server responses only replace local state once all have settled
+let pendingRequests = 0;
+// Indexes for the current snapshot, by as-of date
+let indexCache: { snapshot: ExclusionsSnapshot; byDate: Map<string, ExclusionIndex> } | null = null;
+let syncChannel: BroadcastChannel | null = null;
+
+function setSnapshot(next: Partial<ExclusionsSnapshot>): void {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to changes (for useSyncExternalStore).
+ */
+export function subscribeExclusions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Current exclusions (for useSyncExternalStore).
+ */
+export function getExclusionsSnapshot(): ExclusionsSnapshot {
+  return snapshot;
+}
+
+/**
+ * Compiled index of the rules in effect on a date, shared by every hook
+ * that asks for the same snapshot and date.
+ * The legacy excludedUsers list is indexed as global exclude rules.
+ */
+export function getExclusionIndex(current: ExclusionsSnapshot, asOf: string): ExclusionIndex {
+  if (!indexCache || indexCache.snapshot !== current) {
+    indexCache = { snapshot: current, byDate: new Map() };
+  }
+  let index = indexCache.byDate.get(asOf);
+  if (!index) {
+    index = buildExclusionIndex([
+      ...current.excludedUsers.map((user) => ({ user })),
+      ...current.rules.filter((rule) => isExclusionActive(rule, asOf)),
+    ]);
+    indexCache.byDate.set(asOf, index);
+  }
+  return index;
+}
+
+/**
+ * Merge a change into the local rules by key, so changes made here and in
+ * other tabs all survive whatever order they arrive in.
+ */
+function mergeExclusionChange(
+  rules: ExclusionRule[],
+  removed: ExclusionRule[],
+  added: ExclusionRule[]
+): ExclusionRule[] {
+  const removedKeys = new Set(removed.map(exclusionKey));
+  const kept = rules.filter((e) => !removedKeys.has(exclusionKey(e)));
+  const keptKeys = new Set(kept.map(exclusionKey));
+  return [...kept, ...added.filter((e) => !keptKeys.has(exclusionKey(e)))];
+}
+
+/**
+ * Tell other tabs about a change that was saved to the server.
+ */
+function announceExclusionChange(removed: ExclusionRule[], added: ExclusionRule[]): void {
+  const message: ExclusionChangeMessage = { removed, added };
+  try {
+    if (syncChannel) {
+      syncChannel.postMessage(message);
+    } else {
+      // The timestamp makes every write a change, so repeated messages still fire events
+      localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify({ ...message, at: Date.now() }));
+    }
+  } catch (e) {
+    console.warn("Failed to notify other tabs of exclusion change:", e);
+  }
+}
+
+/**
+ * Apply changes saved by other tabs and follow their name changes.
+ */
+function listenToOtherTabs(): void {
+  const receive = (message: ExclusionChangeMessage) => {
+    if (!Array.isArray(message?.removed) || !Array.isArray(message?.added)) return;
+    setSnapshot({ rules: mergeExclusionChange(snapshot.rules, message.removed, message.added) });
+  };
+
+  if (typeof BroadcastChannel !== "undefined") {
+    syncChannel = new BroadcastChannel(SYNC_CHANNEL);
+    syncChannel.onmessage = (event: MessageEvent<ExclusionChangeMessage>) => receive(event.data);
+  }
+
+  window.addEventListener("storage", (event) => {
+    if (event.key === ACTOR_STORAGE_KEY) {
+      setSnapshot({ actor: event.newValue || "" });
+    } else if (event.key === SYNC_STORAGE_KEY && event.newValue && !syncChannel) {
+      try {
+        receive(JSON.parse(event.newValue));
+      } catch (e) {
+        console.warn("Ignoring malformed exclusion change from another tab:", e);
+      }
+    }
+  });
+}
+
+/**
+ * Call the shared exclusions API and return the updated exclusions.
+ */
+async function requestExclusions(
+  method: "GET" | "POST" | "DELETE",
+  exclusions?: ExclusionRule[],
+  actor?: string,
+  restore = false
+): Promise<ExclusionsData> {
+  const response = await fetch(API_PATH, {
+    method,
+    headers: exclusions ? { "Content-Type": "application/json" } : undefined,
+    body: exclusions ? JSON.stringify({ exclusions, actor, ...(restore && { restore }) }) : undefined,
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `${method} ${API_PATH} failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Read overrides left in localStorage by earlier versions of the app.
+ */
+function readLegacyOverrides(): StateExclusion[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    }
+  } catch (e) {
+    console.warn("Failed to load exclusions from localStorage:", e);
+  }
+  return [];
+}
+
+/**
+ * Fetch the shared list, migrating any legacy local overrides first.
+ * Runs once per tab; later calls refresh in the background.
+ * If the server cannot be reached, the page's server-rendered list is used.
+ */
+export function loadSharedExclusions(fallback: ExclusionsData): Promise<void> {
+  if (loadPromise) {
+    if (snapshot.isLoaded && pendingRequests === 0) {
+      requestExclusions("GET")
+        .then((data) => {
+          if (pendingRequests === 0) {
+            setSnapshot({ rules: data.stateExclusions, excludedUsers: data.excludedUsers });
+          }
+        })
+        .catch((e) => console.warn("Failed to refresh shared exclusions:", e));
+    }
+    return loadPromise;
+  }
+
+  loadPromise = (async () => {
+    listenToOtherTabs();
+    const actor = localStorage.getItem(ACTOR_STORAGE_KEY) || "";
+    const legacy = readLegacyOverrides().map((e) => ({
+      ...e,
+      reason: e.reason || "other",
+      note: e.note || "Migrated from browser overrides",
+    }));
+    try {
+      const data = legacy.length > 0
+        ? await requestExclusions("POST", legacy, actor)
+        : await requestExclusions("GET");
+      if (legacy.length > 0) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        announceExclusionChange([], legacy);
+      }
+      setSnapshot({ rules: data.stateExclusions, excludedUsers: data.excludedUsers, actor, isLoaded: true });
+    } catch (e) {
+      console.warn("Failed to load shared exclusions:", e);
+      // Keep showing any local overrides; migration is retried on the next load
+      const keys = new Set(fallback.stateExclusions.map(exclusionKey));
+      setSnapshot({
+        rules: [...fallback.stateExclusions, ...legacy.filter((e) => !keys.has(exclusionKey(e)))],
+        excludedUsers: fallback.excludedUsers,
+        actor,
+        isLoaded: true,
+      });
+    }
+  })();
+  return loadPromise;
+}
+
+/**
+ * Apply a change locally right away, then save it to the server and
+ * announce it to other tabs. Resolves to whether the server accepted it;
+ * if it did not, the server's current list replaces the local one.
+ * With `restore`, re-added rules keep their original author and time.
+ */
+async function saveExclusionChange(
+  removed: ExclusionRule[],
+  added: ExclusionRule[],
+  restore = false
+): Promise<boolean> {
+  setSnapshot({ rules: mergeExclusionChange(snapshot.rules, removed, added) });
+
+  pendingRequests += 1;
+  let latest: ExclusionsData | null = null;
+  let saved = true;
+  try {
+    if (removed.length > 0) {
+      latest = await requestExclusions("DELETE", removed, snapshot.actor);
+      announceExclusionChange(removed, []);
+    }
+    if (added.length > 0) {
+      latest = await requestExclusions("POST", added, snapshot.actor, restore);
+      announceExclusionChange([], added);
+    }
+  } catch (e) {
+    console.warn("Failed to save exclusions:", e);
+    saved = false;
+    latest = await requestExclusions("GET").catch(() => null);
+  } finally {
+    pendingRequests -= 1;
+  }
+  if (latest && pendingRequests === 0) {
+    setSnapshot({ rules: latest.stateExclusions, excludedUsers: latest.excludedUsers });
+  }
+  return saved;
+}
+
+/**
+ * Apply and save a change.
+ * A labelled change is recorded as one undo step, and clears the redo
+ * stack, once the server has accepted it.
+ */
+export async function applyExclusionChange(
+  removed: ExclusionRule[],
+  added: ExclusionRule[],
+  label?: string
+): Promise<void> {
+  if (removed.length === 0 && added.length === 0) return;
+  const saved = await saveExclusionChange(removed, added);
+  if (saved && label) {
+    setSnapshot({
+      undoStack: [
+        ...snapshot.undoStack,
+        { label, change: { removed, added }, at: new Date().toISOString() },
+      ].slice(-MAX_HISTORY),
+      redoStack: [],
+    });
+  }
+}
+
+/**
+ * Revert the most recent change made in this tab. Removed rules are
+ * restored with their original author and time. The step moves to the
+ * redo stack once the server accepts it, and back if it does not.
+ */
+export async function undoExclusionChange(): Promise<void> {
+  const entry = snapshot.undoStack[snapshot.undoStack.length - 1];
+  if (!entry) return;
+  setSnapshot({ undoStack: snapshot.undoStack.slice(0, -1) });
+  const saved = await saveExclusionChange(entry.change.added, entry.change.removed, true);
+  setSnapshot(
+    saved
+      ? { redoStack: [...snapshot.redoStack, entry] }
+      : { undoStack: [...snapshot.undoStack, entry] }
+  );
+}
+
+/**
+ * Re-apply the most recently undone change.
+ */
+export async function redoExclusionChange(): Promise<void> {
+  const entry = snapshot.redoStack[snapshot.redoStack.length - 1];
+  if (!entry) return;
+  setSnapshot({ redoStack: snapshot.redoStack.slice(0, -1) });
+  const saved = await saveExclusionChange(entry.change.removed, entry.change.added, true);
+  setSnapshot(
+    saved
+      ? { undoStack: [...snapshot.undoStack, entry].slice(-MAX_HISTORY) }
+      : { redoStack: [...snapshot.redoStack, entry] }
+  );
+}
+
+/**
+ * Set the name recorded on this browser's changes.
+ */
+export function setExclusionActor(actor: string): void {
+  setSnapshot({ actor });
+  try {
+    localStorage.setItem(ACTOR_STORAGE_KEY, actor);
+  } catch (e) {
+    console.warn("Failed to save name to localStorage:", e);
+  }
+}
@@ -0,0 +1,394 @@
+import {
+  ExclusionChange,
+  ExclusionEffect,
+  ExclusionReason,
+  ExclusionRule,
+  ExclusionScope,
+  ExclusionTarget,
+  PoolMember,
+  Program,
+  ResourcePool,
+  VisitType,
+} from "./types";
+import { findUsState } from "./states";
+import { normalizeProviderKey } from "./normalize";
+
+const PROGRAMS: Program[] = ["HRT", "TRT"];
+const VISIT_TYPES: VisitType[] = ["Initial", "Follow Up"];
+const EFFECTS: ExclusionEffect[] = ["exclude", "include"];
+
+export const exclusionReasonLabels: Record<ExclusionReason, string> = {
+  backup: "Back-up",
+  "license-pending": "License pending",
+  leave: "On leave",
+  "no-marketing": "No marketing",
+  other: "Other",
+};
+
+const EXCLUSION_REASONS = Object.keys(exclusionReasonLabels) as ExclusionReason[];
+const MAX_NOTE_LENGTH = 500;
+const MAX_ACTOR_LENGTH = 100;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Format a date as YYYY-MM-DD in local time.
+ */
+export function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative if `to` is earlier).
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+/**
+ * Check whether an exclusion is in effect on a date (YYYY-MM-DD).
+ * Start and end dates are inclusive; a missing date leaves that side open.
+ */
+export function isExclusionActive(exclusion: ExclusionRule, asOf: string): boolean {
+  if (exclusion.startDate && exclusion.startDate > asOf) return false;
+  if (exclusion.endDate && exclusion.endDate < asOf) return false;
+  return true;
+}
+
+/**
+ * Whether a rule excludes or includes; rules without an effect exclude.
+ */
+export function ruleEffect(rule: ExclusionRule): ExclusionEffect {
+  return rule.effect || "exclude";
+}
+
+/**
+ * Scope of a rule, from the narrowest field it sets.
+ */
+export function ruleScope(rule: ExclusionRule): ExclusionScope {
+  if (!rule.program) return "global";
+  if (!rule.state) return "program";
+  if (!rule.visitType) return "state";
+  return "visit-type";
+}
+
+/**
+ * Where a rule applies, e.g. "Everywhere", "All HRT states" or "Texas".
+ */
+export function ruleScopeLabel(rule: ExclusionRule): string {
+  if (!rule.program) return "Everywhere";
+  if (!rule.state) return `All ${rule.program} states`;
+  return rule.state;
+}
+
+function isSameUser(rule: ExclusionRule, name: string): boolean {
+  return normalizeProviderKey(rule.user) === normalizeProviderKey(name);
+}
+
+/**
+ * Exclusion rules compiled for constant-time lookups.
+ * Rules are grouped by normalized provider name, then by scope key
+ * ("program|state|visitType", with empty parts for broader scopes).
+ */
+export interface ExclusionIndex {
+  rules: Map<string, Map<string, ExclusionRule[]>>;
+  // Providers with at least one exclude rule, for views without a state
+  excludedAnywhere: Map<string, ExclusionRule>;
+  // Filled lazily by partitionPool; dropped with the index when rules change
+  partitions: WeakMap<ResourcePool, PoolPartition>;
+}
+
+export interface PoolPartition {
+  active: PoolMember[];
+  excluded: PoolMember[];
+}
+
+function scopeKey(program?: Program, state?: string, visitType?: VisitType): string {
+  return `${program || ""}|${state || ""}|${visitType || ""}`;
+}
+
+/**
+ * Compile rules into an ExclusionIndex.
+ */
+export function buildExclusionIndex(rules: ExclusionRule[]): ExclusionIndex {
+  const index: ExclusionIndex = {
+    rules: new Map(),
+    excludedAnywhere: new Map(),
+    partitions: new WeakMap(),
+  };
+
+  rules.forEach((rule) => {
+    const userKey = normalizeProviderKey(rule.user);
+    let byScope = index.rules.get(userKey);
+    if (!byScope) {
+      byScope = new Map();
+      index.rules.set(userKey, byScope);
+    }
+    const key = scopeKey(rule.program, rule.state, rule.visitType);
+    const atScope = byScope.get(key);
+    if (atScope) {
+      atScope.push(rule);
+    } else {
+      byScope.set(key, [rule]);
+    }
+    if (ruleEffect(rule) === "exclude" && !index.excludedAnywhere.has(userKey)) {
+      index.excludedAnywhere.set(userKey, rule);
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Find the rule that decides whether a provider is excluded from one pool.
+ * Precedence:
+ * 1. The narrowest scope wins: visit type, then state, then program, then global.
+ * 2. Within the same scope, an include beats an exclude.
+ * Returns undefined when no rule covers the assignment (the provider is active).
+ */
+export function resolveExclusionRule(
+  index: ExclusionIndex,
+  name: string,
+  program: Program,
+  state: string,
+  visitType: VisitType
+): ExclusionRule | undefined {
+  const byScope = index.rules.get(normalizeProviderKey(name));
+  if (!byScope) return undefined;
+
+  const scopes = [
+    scopeKey(program, state, visitType),
+    scopeKey(program, state),
+    scopeKey(program),
+    scopeKey(),
+  ];
+  for (const key of scopes) {
+    const atScope = byScope.get(key);
+    if (atScope) {
+      return atScope.find((rule) => ruleEffect(rule) === "include") || atScope[0];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the exclude rule in effect for a provider at the level a view works at:
+ * - program, state and visit type: that pool
+ * - program and state: either visit type in that state
+ * - no state: any exclude rule naming the provider (for views without a state)
+ */
+export function findExcludingRule(
+  index: ExclusionIndex,
+  name: string,
+  state?: string,
+  program?: Program,
+  visitType?: VisitType
+): ExclusionRule | undefined {
+  if (!state || !program) {
+    return index.excludedAnywhere.get(normalizeProviderKey(name));
+  }
+  for (const type of visitType ? [visitType] : VISIT_TYPES) {
+    const rule = resolveExclusionRule(index, name, program, state, type);
+    if (rule && ruleEffect(rule) === "exclude") return rule;
+  }
+  return undefined;
+}
+
+/**
+ * Split a pool's members into active and excluded, memoized per pool.
+ */
+export function partitionPool(index: ExclusionIndex, pool: ResourcePool): PoolPartition {
+  const cached = index.partitions.get(pool);
+  if (cached) return cached;
+
+  const partition: PoolPartition = { active: [], excluded: [] };
+  pool.members.forEach((member) => {
+    const rule = resolveExclusionRule(index, member.name, pool.program, pool.state, pool.visitType);
+    if (rule && ruleEffect(rule) === "exclude") {
+      partition.excluded.push(member);
+    } else {
+      partition.active.push(member);
+    }
+  });
+  index.partitions.set(pool, partition);
+  return partition;
+}
+
+/**
+ * Check whether a rule sits at a toggle's target scope or narrower within it.
+ * A toggle replaces these rules so its result is not contradicted.
+ */
+export function isRuleWithin(
+  rule: ExclusionRule,
+  name: string,
+  program: Program,
+  state: string,
+  visitType?: VisitType
+): boolean {
+  return (
+    isSameUser(rule, name) &&
+    rule.program === program &&
+    rule.state === state &&
+    (!visitType || rule.visitType === visitType)
+  );
+}
+
+/**
+ * Work out the rule edits that give every target the wanted status, the way
+ * a toggle does: rules at a target's scope or narrower are removed, and an
+ * override is added there only if broader rules would still decide otherwise.
+ * Targets that already have the wanted status are left alone.
+ * `rules` are the removable rules; only those in effect on `asOf` decide a
+ * target's status or are removed. `fixed` rules (the legacy list) stay.
+ */
+export function planExclusionChange(
+  rules: ExclusionRule[],
+  fixed: ExclusionRule[],
+  targets: ExclusionTarget[],
+  exclude: boolean,
+  createRule: (target: ExclusionTarget, effect: ExclusionEffect) => ExclusionRule,
+  asOf: string
+): ExclusionChange {
+  let current = [...rules];
+  const removed: ExclusionRule[] = [];
+  const added: ExclusionRule[] = [];
+  const isActive = (e: ExclusionRule) => isExclusionActive(e, asOf);
+  // A target without a visit type has the wanted status only if both visit types do
+  const hasStatus = ({ name, program, state, visitType }: ExclusionTarget) => {
+    const index = buildExclusionIndex([...fixed, ...current.filter(isActive)]);
+    return (visitType ? [visitType] : VISIT_TYPES).every(
+      (type) => (findExcludingRule(index, name, state, program, type) !== undefined) === exclude
+    );
+  };
+
+  targets.forEach((target) => {
+    if (hasStatus(target)) return;
+
+    const cleared = current.filter((e) =>
+      isActive(e) && isRuleWithin(e, target.name, target.program, target.state, target.visitType)
+    );
+    current = current.filter((e) => !cleared.includes(e));
+    cleared.forEach((e) => {
+      // A rule added for an earlier target is dropped rather than removed
+      const addedIndex = added.indexOf(e);
+      if (addedIndex >= 0) added.splice(addedIndex, 1);
+      else removed.push(e);
+    });
+
+    if (!hasStatus(target)) {
+      const rule = createRule(target, exclude ? "exclude" : "include");
+      current.push(rule);
+      added.push(rule);
+    }
+  });
+
+  return { removed, added };
+}
+
+/**
+ * Identity of an exclusion entry, used to de-duplicate and remove entries.
+ */
+export function exclusionKey(exclusion: ExclusionRule): string {
+  return [
+    ruleEffect(exclusion),
+    exclusion.program || "",
+    exclusion.state || "",
+    exclusion.user.toLowerCase().trim(),
+    exclusion.visitType || "",
+    exclusion.startDate || "",
+    exclusion.endDate || "",
+  ].join("|");
+}
+
+/**
+ * Identity of a provider assignment, used to key table rows and selections.
+ */
+export function assignmentKey(assignment: {
+  providerId?: string;
+  name: string;
+  state?: string;
+  visitType?: VisitType;
+}): string {
+  return `${assignment.providerId || assignment.name}|${assignment.state || ""}|${assignment.visitType || ""}`;
+}
+
+/**
+ * Validate an untrusted list of exclusion rules (e.g. an API request body).
+ * Returns null if any entry is malformed.
+ */
+export function parseExclusionRules(value: unknown): ExclusionRule[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const exclusions: ExclusionRule[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") return null;
+    const {
+      effect, program, state, user, visitType, reason, note, startDate, endDate, createdBy, createdAt,
+    } = item as Record<string, unknown>;
+    if (effect !== undefined && effect !== null && !EFFECTS.includes(effect as ExclusionEffect)) return null;
+    if (program !== undefined && program !== null && !PROGRAMS.includes(program as Program)) return null;
+    if (state !== undefined && state !== null && (typeof state !== "string" || state.trim() === "")) return null;
+    if (typeof user !== "string" || user.trim() === "") return null;
+    if (visitType !== undefined && visitType !== null && !VISIT_TYPES.includes(visitType as VisitType)) {
+      return null;
+    }
+    // Each scope narrows the one above it
+    if (state && !program) return null;
+    if (visitType && !state) return null;
+    if (reason !== undefined && reason !== null && !EXCLUSION_REASONS.includes(reason as ExclusionReason)) {
+      return null;
+    }
+    if (note !== undefined && note !== null && typeof note !== "string") return null;
+    for (const date of [startDate, endDate]) {
+      if (date !== undefined && date !== null && date !== "" && !(typeof date === "string" && ISO_DATE.test(date))) {
+        return null;
+      }
+    }
+    if (startDate && endDate && (startDate as string) > (endDate as string)) return null;
+    if (createdBy !== undefined && createdBy !== null && typeof createdBy !== "string") return null;
+    if (createdAt !== undefined && createdAt !== null && !(typeof createdAt === "string" && !isNaN(Date.parse(createdAt)))) {
+      return null;
+    }
+
+    exclusions.push({
+      ...(effect === "include" ? { effect: "include" as const } : {}),
+      ...(program ? { program: program as Program } : {}),
+      ...(typeof state === "string" ? { state: findUsState(state)?.name ?? state.trim() } : {}),
+      user: user.trim(),
+      ...(visitType ? { visitType: visitType as VisitType } : {}),
+      ...(reason ? { reason: reason as ExclusionReason } : {}),
+      ...(typeof note === "string" && note.trim() ? { note: note.trim().slice(0, MAX_NOTE_LENGTH) } : {}),
+      ...(startDate ? { startDate: startDate as string } : {}),
+      ...(endDate ? { endDate: endDate as string } : {}),
+      ...(typeof createdBy === "string" && createdBy.trim() ? { createdBy: createdBy.trim().slice(0, MAX_ACTOR_LENGTH) } : {}),
+      ...(typeof createdAt === "string" ? { createdAt } : {}),
+    });
+  }
+  return exclusions;
+}
+
+/**
+ * One-line summary of why and by whom a user was excluded, for tooltips.
+ */
+export function describeExclusion(exclusion: ExclusionRule): string {
+  const parts = [
+    exclusion.reason ? exclusionReasonLabels[exclusion.reason] : "No reason recorded",
+  ];
+  if (!exclusion.state) parts.push(ruleScopeLabel(exclusion));
+  if (exclusion.visitType) parts.push(`${exclusion.visitType} only`);
+  if (exclusion.startDate && exclusion.endDate) {
+    parts.push(`${exclusion.startDate} to ${exclusion.endDate}`);
+  } else if (exclusion.startDate) {
+    parts.push(`From ${exclusion.startDate}`);
+  } else if (exclusion.endDate) {
+    parts.push(`Until ${exclusion.endDate}`);
+  }
+  if (exclusion.note) parts.push(exclusion.note);
+  if (exclusion.createdBy || exclusion.createdAt) {
+    const by = exclusion.createdBy ? ` by ${exclusion.createdBy}` : "";
+    const on = exclusion.createdAt ? ` on ${new Date(exclusion.createdAt).toLocaleDateString()}` : "";
+    parts.push(`Added${by}${on}`);
+  }
+  return parts.join(" · ");
+}
@@ -33,3 +33,46 @@ export function dedupeUsers(users: string[]): string[] {
   return [...new Set(users)];
 }
 
+
+/**
+ * Normalize a provider name into a lookup key for alias matching.
+ * Lowercases, drops periods and trailing credentials (", NP"), and collapses whitespace.
+ */
+export function normalizeProviderKey(name: string): string {
+  return normalizeUserName(name)
+    .toLowerCase()
+    .replace(/\./g, "")
+    .replace(/,?\s+np$/, "")
+    .replace(/,\s*$/, "")
+    .trim();
+}
+
+/**
+ * Turn a display name into a URL-safe slug ("Tim Mack" -> "tim-mack").
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Classic edit distance between two strings.
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -1,6 +1,21 @@
 import Papa from "papaparse";
-import { ResourcePool, Program, VisitType } from "./types";
-import { normalizeUserName, isValidUser, dedupeUsers } from "./normalize";
+import {
+  ResourcePool,
+  Program,
+  VisitType,
+  PoolMember,
+  PoolAnnotation,
+  PoolFlag,
+  ProviderDirectory,
+  ProviderRef,
+  ProviderTier,
+  TierFilter,
+  ParseReport,
+  SkipReason,
+} from "./types";
+import { normalizeUserName, isValidUser } from "./normalize";
+import { buildProviderIndex, toProviderRef, findUnmatchedProviders } from "./providers";
+import { findUsState, suggestUsState } from "./states";
 
 /**
  * Check if a header should be ignored (Unnamed, blank, or key/legend text)
@@ -27,29 +42,182 @@ function getVisitType(label: string): VisitType {
 }
 
 /**
- * Parse CSV content into ResourcePool array.
+ * Split a state header into the state name and its trailing parenthetical notes.
+ * "Tennessee (no marketing)" -> { state: "Tennessee", notes: ["no marketing"] }
+ */
+function splitHeaderNotes(header: string): { state: string; notes: string[] } {
+  const notes: string[] = [];
+  let state = header.replace(/\s+/g, " ").trim();
+  let match = state.match(/\s*\(([^()]*)\)\s*$/);
+  while (match) {
+    if (match[1].trim()) notes.unshift(match[1].trim());
+    state = state.slice(0, match.index).trim();
+    match = state.match(/\s*\(([^()]*)\)\s*$/);
+  }
+  return { state, notes };
+}
+
+/**
+ * Classify a header note into a known pool flag.
+ */
+function getNoteFlag(note: string): PoolFlag {
+  const lower = note.toLowerCase();
+  if (lower.includes("no marketing") || lower.includes("marketing off")) return "no-marketing";
+  return "note";
+}
+
+/**
+ * Collect the annotations for one column: header notes plus an asterisk on the visit-type label.
+ */
+function getColumnAnnotations(headerNotes: string[], visitTypeLabel: string): PoolAnnotation[] {
+  const annotations: PoolAnnotation[] = headerNotes.map((note) => ({
+    flag: getNoteFlag(note),
+    text: note,
+  }));
+  const label = visitTypeLabel.trim();
+  if (label.includes("*")) {
+    annotations.push({ flag: "asterisk", text: label });
+  }
+  return annotations;
+}
+
+/**
+ * Check if a cell is the sheet's "Back-up" marker
+ */
+function isBackupMarker(cell: string): boolean {
+  const lower = cell.toLowerCase();
+  return lower === "back-up" || lower === "backup" || lower === "back up";
+}
+
+/**
+ * Find the first data row of the back-up tier.
+ * The sheets list back-ups as a band across every state below the primary block.
+ * The band starts on the row after a "Back-up" marker cell, or after a run of
+ * blank rows that follows the primary block (the HRT sheet has no marker).
+ * Returns Infinity when there is no back-up band.
+ */
+function findBackupStartRow(dataRows: string[][], columns: number[]): number {
+  let seenContent = false;
+  let sawGap = false;
+
+  for (let i = 0; i < dataRows.length; i++) {
+    const cells = columns.map((col) => normalizeUserName(String(dataRows[i]?.[col] ?? "")));
+    if (cells.some(isBackupMarker)) return i + 1;
+
+    const hasContent = cells.some((cell) => cell !== "");
+    if (!hasContent) {
+      if (seenContent) sawGap = true;
+      continue;
+    }
+    if (sawGap) return i;
+    seenContent = true;
+  }
+
+  return Infinity;
+}
+
+/**
+ * Classify a non-empty cell that is not a provider name, or null if it is a name.
+ */
+function getSkipReason(lower: string): SkipReason | null {
+  if (lower === "closed" || lower.startsWith("closed ")) return "closed";
+  if (isBackupMarker(lower)) return "backup-marker";
+  if (lower === "key" || lower.includes("please add")) return "legend";
+  // Entries that look like legend/key text
+  if (lower.includes("pending") || lower.includes("provider has") || lower.includes("license")) return "legend";
+  return null;
+}
+
+/**
+ * Spreadsheet-style column label for a 0-based column index (0 -> "A", 26 -> "AA").
+ */
+export function columnLabel(index: number): string {
+  let label = "";
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+}
+
+/**
+ * Create an empty parse report for a program.
+ */
+export function createParseReport(program: Program): ParseReport {
+  return {
+    program,
+    rowCount: 0,
+    poolCount: 0,
+    memberCount: 0,
+    parseErrors: [],
+    headerAnomalies: [],
+    skippedCells: [],
+    unmatchedProviders: [],
+    loadErrors: [],
+  };
+}
+
+/**
+ * Problems in a parse report that leave the program with no usable pools.
+ * Load errors are not included; callers report those with the file name.
+ */
+export function getFatalParseProblems(report: ParseReport): string[] {
+  const problems = report.headerAnomalies.filter((a) => a.fatal).map((a) => a.message);
+  if (report.loadErrors.length === 0 && report.poolCount === 0) {
+    problems.push("No resource pools were parsed");
+  }
+  return problems;
+}
+
+/**
+ * Parse CSV content into ResourcePool array, plus a report of everything the
+ * parser skipped or could not make sense of.
  * Handles format where:
  * - Row 1: State names (alternating with empty for Initial/Follow up pairs)
  * - Row 2: "Initial"/"Follow up" labels
  * - Row 3+: Provider names
  * 
+ * Every name cell is resolved against the provider directory, so "Tim",
+ * "Tim Mack" and "Timothy Mack" all become the same pool member.
+ * Names in the back-up band are kept with tier "backup" instead of being
+ * mixed in with the primary providers. Header notes such as "(no marketing)"
+ * and asterisks on the visit-type row are kept as pool annotations.
+ * 
+ * Row and column numbers in the report are 1-based, as shown in a spreadsheet.
+ * 
  * @param csvContent - Raw CSV string content
  * @param program - "HRT" or "TRT"
- * @returns Array of ResourcePool objects
+ * @param directory - Known providers and their aliases
+ * @returns ResourcePool objects and the ParseReport
  */
-export function parseResourcePoolCsv(csvContent: string, program: Program): ResourcePool[] {
+export function parseResourcePoolCsvWithReport(
+  csvContent: string,
+  program: Program,
+  directory: ProviderDirectory = { providers: [] }
+): { pools: ResourcePool[]; report: ParseReport } {
+  const report = createParseReport(program);
   const result = Papa.parse<string[]>(csvContent, {
     header: false,
     skipEmptyLines: false,
   });
 
-  if (result.errors.length > 0) {
-    console.warn("CSV parsing warnings:", result.errors);
-  }
+  report.parseErrors = result.errors.map((error) => ({
+    row: typeof error.row === "number" ? error.row + 1 : undefined,
+    message: `${error.code}: ${error.message}`,
+  }));
 
   const rows = result.data;
+  report.rowCount = rows.length;
   if (rows.length < 3) {
-    return [];
+    report.headerAnomalies.push({
+      kind: "too-few-rows",
+      header: "",
+      message: `Expected a state header row, a visit-type row and at least one provider row; found ${rows.length} row(s)`,
+      fatal: true,
+    });
+    return { pools: [], report };
   }
 
   // First row is state headers
@@ -59,9 +227,10 @@ export function parseResourcePoolCsv(csvContent: string, program: Program): Reso
   // Data starts from row 3 (index 2)
   const dataRows = rows.slice(2);
 
-  // Build a map of column index -> { state, visitType }
-  const columnMap: Map<number, { state: string; visitType: VisitType }> = new Map();
+  // Build a map of column index -> { state, visitType, annotations }
+  const columnMap: Map<number, { state: string; visitType: VisitType; annotations: PoolAnnotation[] }> = new Map();
   let lastValidState = "";
+  let lastHeaderNotes: string[] = [];
 
   headerRow.forEach((header, index) => {
     const trimmed = header?.trim() || "";
@@ -69,65 +238,168 @@ export function parseResourcePoolCsv(csvContent: string, program: Program): Reso
     const visitType = getVisitType(visitTypeLabel);
     
     if (!shouldIgnoreHeader(trimmed) && trimmed !== "") {
-      // Clean up state name (remove trailing parenthetical notes)
-      let stateName = trimmed
-        .replace(/\s*\(.*\)\s*$/g, "") // Remove (no marketing) etc
-        .replace(/\s+/g, " ")
-        .trim();
+      // Clean up state name, keeping trailing parenthetical notes as annotations
+      const { state: header, notes } = splitHeaderNotes(trimmed);
+      // Map "iowa", "IA" and the like to the registry name so one state gets one pool
+      const usState = findUsState(header);
+      const stateName = usState?.name ?? header;
+      if (!usState) {
+        const suggestion = suggestUsState(header);
+        report.headerAnomalies.push({
+          kind: "unknown-state",
+          column: index + 1,
+          header,
+          message: `Header "${header}" in column ${columnLabel(index)} is not a US state or territory${
+            suggestion ? ` (did you mean ${suggestion.name}?)` : ""
+          }; it was kept as its own pool`,
+          fatal: false,
+        });
+      }
       
       lastValidState = stateName;
-      columnMap.set(index, { state: stateName, visitType });
+      lastHeaderNotes = notes;
+      columnMap.set(index, {
+        state: stateName,
+        visitType,
+        annotations: getColumnAnnotations(notes, visitTypeLabel),
+      });
     } else if (trimmed === "" && lastValidState) {
       // Empty column after a state - this is the "Follow up" column for that state
-      columnMap.set(index, { state: lastValidState, visitType });
+      columnMap.set(index, {
+        state: lastValidState,
+        visitType,
+        annotations: getColumnAnnotations(lastHeaderNotes, visitTypeLabel),
+      });
+    } else if (trimmed !== "") {
+      report.headerAnomalies.push({
+        kind: "ignored-header",
+        column: index + 1,
+        header: trimmed,
+        message: `Header "${trimmed}" in column ${columnLabel(index)} looks like legend text and was ignored`,
+        fatal: false,
+      });
     }
   });
 
-  // Collect users per state+visitType
+  // Header sanity checks
+  const seenPoolColumns = new Map<string, number>();
+  columnMap.forEach(({ state, visitType }, colIndex) => {
+    const label = (visitTypeRow[colIndex] || "").trim();
+    if (label && !/initial|follow/i.test(label)) {
+      report.headerAnomalies.push({
+        kind: "unknown-visit-type",
+        column: colIndex + 1,
+        header: label,
+        message: `Visit type "${label}" for ${state} in column ${columnLabel(colIndex)} is not Initial or Follow up; treated as Initial`,
+        fatal: false,
+      });
+    }
+    const key = `${state}|${visitType}`;
+    const firstColumn = seenPoolColumns.get(key);
+    if (firstColumn !== undefined) {
+      report.headerAnomalies.push({
+        kind: "duplicate-column",
+        column: colIndex + 1,
+        header: state,
+        message: `Column ${columnLabel(colIndex)} repeats ${state} ${visitType} (first seen in column ${columnLabel(firstColumn)}); the columns are merged`,
+        fatal: false,
+      });
+    } else {
+      seenPoolColumns.set(key, colIndex);
+    }
+  });
+  if (columnMap.size === 0) {
+    report.headerAnomalies.push({
+      kind: "no-state-headers",
+      header: "",
+      message: "Row 1 contains no state headers",
+      fatal: true,
+    });
+  } else if (!visitTypeRow.some((label) => /initial|follow/i.test(label || ""))) {
+    report.headerAnomalies.push({
+      kind: "missing-visit-type-row",
+      header: "",
+      message: 'Row 2 has no "Initial" or "Follow up" labels',
+      fatal: true,
+    });
+  }
+
+  // Collect members per state+visitType
+  const providerIndex = buildProviderIndex(directory);
   const poolKey = (state: string, visitType: VisitType) => `${state}|${visitType}`;
-  const stateUsersMap: Map<string, string[]> = new Map();
+  const stateMembersMap: Map<string, { ref: ProviderRef; tier: ProviderTier }[]> = new Map();
+  const poolAnnotationsMap: Map<string, PoolAnnotation[]> = new Map();
+  columnMap.forEach(({ state, visitType, annotations }) => {
+    const key = poolKey(state, visitType);
+    poolAnnotationsMap.set(key, [...(poolAnnotationsMap.get(key) || []), ...annotations]);
+  });
+  const backupStartRow = findBackupStartRow(dataRows, Array.from(columnMap.keys()));
 
   // Process each data row
-  dataRows.forEach((row) => {
+  dataRows.forEach((row, rowIndex) => {
     if (!row || row.length === 0) return;
-    
-    columnMap.forEach(({ state, visitType }, colIndex) => {
-      const cellValue = row[colIndex];
-      if (cellValue !== undefined && cellValue !== null) {
-        const normalized = normalizeUserName(String(cellValue));
-        
-        // Skip invalid entries, legend text, and "Closed" markers
-        if (!isValidUser(normalized)) return;
-        const lower = normalized.toLowerCase();
-        if (lower === "closed" || lower.includes("please add") || lower === "key" || lower === "back-up") return;
-        
-        // Skip entries that look like legend/key text
-        if (lower.includes("pending") || lower.includes("provider has") || lower.includes("license")) return;
-        
-        // Get or create the users array for this state+visitType
-        const key = poolKey(state, visitType);
-        if (!stateUsersMap.has(key)) {
-          stateUsersMap.set(key, []);
-        }
-        stateUsersMap.get(key)!.push(normalized);
+    const tier: ProviderTier = rowIndex >= backupStartRow ? "backup" : "primary";
+    const sheetRow = rowIndex + 3;
+
+    row.forEach((cellValue, colIndex) => {
+      if (cellValue === undefined || cellValue === null) return;
+      const normalized = normalizeUserName(String(cellValue));
+      if (!isValidUser(normalized)) return;
+
+      const column = columnMap.get(colIndex);
+      if (!column) {
+        // Content in a column with no state header (misaligned or legend column)
+        report.skippedCells.push({
+          row: sheetRow,
+          column: colIndex + 1,
+          value: normalized,
+          reason: "unmapped-column",
+        });
+        return;
+      }
+      const { state, visitType } = column;
+
+      // Skip legend text, "Closed" markers and the Back-up marker
+      const skipReason = getSkipReason(normalized.toLowerCase());
+      if (skipReason) {
+        report.skippedCells.push({
+          row: sheetRow,
+          column: colIndex + 1,
+          value: normalized,
+          reason: skipReason,
+          state,
+          visitType,
+        });
+        return;
       }
+      
+      // Get or create the members array for this state+visitType
+      const key = poolKey(state, visitType);
+      if (!stateMembersMap.has(key)) {
+        stateMembersMap.set(key, []);
+      }
+      stateMembersMap.get(key)!.push({ ref: toProviderRef(providerIndex, normalized), tier });
     });
   });
 
   // Convert map to array of ResourcePool objects
   const resourcePools: ResourcePool[] = [];
-  stateUsersMap.forEach((users, key) => {
+  stateMembersMap.forEach((entries, key) => {
     const [state, visitType] = key.split("|") as [string, VisitType];
-    // De-duplicate users within each pool
-    const dedupedUsers = dedupeUsers(users);
+    // De-duplicate providers within each pool (aliases collapse to one member).
+    // A provider listed as both primary and back-up keeps the primary entry.
+    const dedupedMembers = dedupeMembers(
+      entries.map(({ ref, tier }, index) => ({ ...ref, tier, order: index + 1 }))
+    ).map((member, index) => ({ ...member, order: index + 1 }));
     
-    // Only include pools with at least one user
-    if (dedupedUsers.length > 0) {
+    // Only include pools with at least one member
+    if (dedupedMembers.length > 0) {
       resourcePools.push({
         program,
         state,
         visitType,
-        users: dedupedUsers,
+        members: dedupedMembers,
+        annotations: poolAnnotationsMap.get(key) || [],
       });
     }
   });
@@ -139,29 +411,87 @@ export function parseResourcePoolCsv(csvContent: string, program: Program): Reso
     return a.visitType === "Initial" ? -1 : 1;
   });
 
-  return resourcePools;
+  report.poolCount = resourcePools.length;
+  report.memberCount = resourcePools.reduce((sum, pool) => sum + pool.members.length, 0);
+  report.unmatchedProviders = findUnmatchedProviders(resourcePools, directory);
+
+  return { pools: resourcePools, report };
+}
+
+/**
+ * Parse CSV content into ResourcePool array.
+ * See parseResourcePoolCsvWithReport for the sheet format.
+ * 
+ * @param csvContent - Raw CSV string content
+ * @param program - "HRT" or "TRT"
+ * @param directory - Known providers and their aliases
+ * @returns Array of ResourcePool objects
+ */
+export function parseResourcePoolCsv(
+  csvContent: string,
+  program: Program,
+  directory: ProviderDirectory = { providers: [] }
+): ResourcePool[] {
+  return parseResourcePoolCsvWithReport(csvContent, program, directory).pools;
+}
+
+/**
+ * De-duplicate pool members by provider ID, keeping first-seen order.
+ */
+export function dedupeMembers(members: PoolMember[]): PoolMember[] {
+  const seen = new Set<string>();
+  return members.filter((member) => {
+    if (seen.has(member.providerId)) return false;
+    seen.add(member.providerId);
+    return true;
+  });
+}
+
+/**
+ * Keep only the members matching a tier filter.
+ */
+export function filterMembersByTier(members: PoolMember[], tierFilter: TierFilter): PoolMember[] {
+  if (tierFilter === "all") return members;
+  return members.filter((member) => member.tier === tierFilter);
+}
+
+/**
+ * Merge the annotations of several pools (e.g. a state's Initial and Follow Up), dropping repeats.
+ */
+export function mergePoolAnnotations(pools: (ResourcePool | null | undefined)[]): PoolAnnotation[] {
+  const seen = new Set<string>();
+  const merged: PoolAnnotation[] = [];
+  pools.forEach((pool) => {
+    pool?.annotations.forEach((annotation) => {
+      const key = `${annotation.flag}|${annotation.text}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      merged.push(annotation);
+    });
+  });
+  return merged;
 }
 
 /**
- * Get users for a specific state from resource pools.
+ * Get members for a specific state from resource pools.
  */
 export function getUsersForState(
   resourcePools: ResourcePool[],
   state: string,
   visitType?: VisitType,
   showDuplicates: boolean = false
-): string[] {
+): PoolMember[] {
   let pools = resourcePools.filter((p) => p.state === state);
   if (visitType) {
     pools = pools.filter((p) => p.visitType === visitType);
   }
   
-  const allUsers = pools.flatMap((p) => p.users);
+  const allMembers = pools.flatMap((p) => p.members);
   
   if (showDuplicates) {
-    return allUsers;
+    return allMembers;
   }
-  return dedupeUsers(allUsers);
+  return dedupeMembers(allMembers);
 }
 
 /**
@@ -169,12 +499,18 @@ export function getUsersForState(
  */
 export function getAllUsers(
   resourcePools: ResourcePool[]
-): { name: string; state: string; visitType: VisitType }[] {
-  const allUsers: { name: string; state: string; visitType: VisitType }[] = [];
+): { providerId: string; name: string; state: string; visitType: VisitType; tier: ProviderTier }[] {
+  const allUsers: { providerId: string; name: string; state: string; visitType: VisitType; tier: ProviderTier }[] = [];
   
   resourcePools.forEach((pool) => {
-    pool.users.forEach((user) => {
-      allUsers.push({ name: user, state: pool.state, visitType: pool.visitType });
+    pool.members.forEach((member) => {
+      allUsers.push({
+        providerId: member.providerId,
+        name: member.name,
+        state: pool.state,
+        visitType: pool.visitType,
+        tier: member.tier,
+      });
     });
   });
 
@@ -0,0 +1,122 @@
+import {
+  Provider,
+  ProviderDirectory,
+  ProviderRef,
+  ResourcePool,
+  UnmatchedProvider,
+} from "./types";
+import { levenshtein, normalizeProviderKey, normalizeUserName, slugify } from "./normalize";
+
+export type ProviderIndex = Map<string, Provider>;
+
+/**
+ * Build a lookup from every normalized name and alias to its provider.
+ */
+export function buildProviderIndex(directory: ProviderDirectory): ProviderIndex {
+  const index: ProviderIndex = new Map();
+
+  directory.providers.forEach((provider) => {
+    [provider.name, ...provider.aliases].forEach((alias) => {
+      const key = normalizeProviderKey(alias);
+      if (!key) return;
+      const existing = index.get(key);
+      if (existing && existing.id !== provider.id) {
+        console.warn(`Alias "${alias}" is claimed by both ${existing.id} and ${provider.id}`);
+        return;
+      }
+      index.set(key, provider);
+    });
+  });
+
+  return index;
+}
+
+/**
+ * Resolve a raw sheet cell to its canonical provider, or null if unknown.
+ */
+export function resolveProvider(index: ProviderIndex, name: string): Provider | null {
+  return index.get(normalizeProviderKey(name)) || null;
+}
+
+/**
+ * Resolve a raw sheet cell to a provider reference.
+ * Unknown names keep their cell text and get a slug-based ID so they still group together.
+ */
+export function toProviderRef(index: ProviderIndex, name: string): ProviderRef {
+  const provider = resolveProvider(index, name);
+  if (provider) {
+    return { providerId: provider.id, name: provider.name, matched: true };
+  }
+  const normalized = normalizeUserName(name);
+  return {
+    providerId: `unmatched-${slugify(normalized) || "blank"}`,
+    name: normalized,
+    matched: false,
+  };
+}
+
+/**
+ * Suggest providers whose name or aliases are close to an unmatched cell.
+ * Ranks by edit distance; a shared word (e.g. a first name) also counts as close.
+ */
+export function suggestProviders(
+  directory: ProviderDirectory,
+  name: string,
+  limit: number = 3
+): Provider[] {
+  const key = normalizeProviderKey(name);
+  if (!key) return [];
+  const words = new Set(key.split(/[^a-z]+/).filter((w) => w.length >= 3));
+  const maxDistance = Math.max(2, Math.floor(key.length * 0.3));
+
+  const scored: { provider: Provider; score: number }[] = [];
+  directory.providers.forEach((provider) => {
+    let best = Infinity;
+    [provider.name, ...provider.aliases].forEach((alias) => {
+      const aliasKey = normalizeProviderKey(alias);
+      const distance = levenshtein(key, aliasKey);
+      if (distance <= maxDistance) {
+        best = Math.min(best, distance);
+      }
+      const sharesWord = aliasKey.split(/[^a-z]+/).some((w) => words.has(w));
+      if (sharesWord) {
+        // Rank word matches after near-identical spellings
+        best = Math.min(best, maxDistance + 1);
+      }
+    });
+    if (best !== Infinity) {
+      scored.push({ provider, score: best });
+    }
+  });
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.provider.name.localeCompare(b.provider.name))
+    .slice(0, limit)
+    .map((s) => s.provider);
+}
+
+/**
+ * List every pool cell that matched no provider, with close-match suggestions.
+ */
+export function findUnmatchedProviders(
+  resourcePools: ResourcePool[],
+  directory: ProviderDirectory
+): UnmatchedProvider[] {
+  const unmatched: UnmatchedProvider[] = [];
+
+  resourcePools.forEach((pool) => {
+    pool.members
+      .filter((member) => !member.matched)
+      .forEach((member) => {
+        unmatched.push({
+          name: member.name,
+          program: pool.program,
+          state: pool.state,
+          visitType: pool.visitType,
+          suggestions: suggestProviders(directory, member.name),
+        });
+      });
+  });
+
+  return unmatched;
+}
@@ -0,0 +1,143 @@
+import { Program, ResourcePool, TierFilter, VisitType } from "./types";
+import { PoolPartition } from "./exclusions";
+import { filterMembersByTier } from "./parseResourcePoolCsv";
+
+type GetPoolPartition = (pool: ResourcePool) => PoolPartition;
+
+export interface VisitTypeCounts {
+  initial: number;
+  followUp: number;
+}
+
+// States a provider is active in, per visit type
+export interface ProviderCoverage {
+  providerId: string;
+  name: string;
+  initial: Set<string>;
+  followUp: Set<string>;
+  any: Set<string>;
+}
+
+export interface StateDelta {
+  state: string;
+  hrt: VisitTypeCounts | null; // Null when the program has no pool in the state
+  trt: VisitTypeCounts | null;
+}
+
+export interface ProviderProgramDiff {
+  providerId: string;
+  name: string;
+  hrtOnly: string[]; // States covered in HRT but not TRT
+  trtOnly: string[];
+  shared: number;
+}
+
+export interface ProgramComparison {
+  hrtOnlyStates: string[]; // Served by HRT, not by TRT
+  trtOnlyStates: string[];
+  stateDeltas: StateDelta[]; // Largest difference first
+  providerDiffs: ProviderProgramDiff[]; // Providers active in both programs with different states
+}
+
+const visitKey = (visitType: VisitType): keyof VisitTypeCounts =>
+  visitType === "Initial" ? "initial" : "followUp";
+
+/**
+ * States each provider is active in, split by visit type.
+ */
+export function getProviderCoverage(
+  pools: ResourcePool[],
+  getPoolPartition: GetPoolPartition,
+  tierFilter: TierFilter
+): Map<string, ProviderCoverage> {
+  const coverage = new Map<string, ProviderCoverage>();
+  pools.forEach((pool) => {
+    filterMembersByTier(getPoolPartition(pool).active, tierFilter).forEach((member) => {
+      let entry = coverage.get(member.providerId);
+      if (!entry) {
+        entry = { providerId: member.providerId, name: member.name, initial: new Set(), followUp: new Set(), any: new Set() };
+        coverage.set(member.providerId, entry);
+      }
+      entry[visitKey(pool.visitType)].add(pool.state);
+      entry.any.add(pool.state);
+    });
+  });
+  return coverage;
+}
+
+/**
+ * Active providers per state and visit type. Every state with a pool is
+ * included, even if nobody in it is active.
+ */
+export function getActiveCountsByState(
+  pools: ResourcePool[],
+  getPoolPartition: GetPoolPartition,
+  tierFilter: TierFilter
+): Map<string, VisitTypeCounts> {
+  const counts = new Map<string, VisitTypeCounts>();
+  pools.forEach((pool) => {
+    const entry = counts.get(pool.state) || { initial: 0, followUp: 0 };
+    entry[visitKey(pool.visitType)] += filterMembersByTier(getPoolPartition(pool).active, tierFilter).length;
+    counts.set(pool.state, entry);
+  });
+  return counts;
+}
+
+/**
+ * Compare HRT and TRT coverage: states only one program serves, per-state
+ * differences in active providers, and providers who cover different
+ * states in each program. A state is served when it has an active provider.
+ */
+export function compareProgramCoverage(
+  hrtPools: ResourcePool[],
+  trtPools: ResourcePool[],
+  getPoolPartition: GetPoolPartition,
+  tierFilter: TierFilter
+): ProgramComparison {
+  const counts: Record<Program, Map<string, VisitTypeCounts>> = {
+    HRT: getActiveCountsByState(hrtPools, getPoolPartition, tierFilter),
+    TRT: getActiveCountsByState(trtPools, getPoolPartition, tierFilter),
+  };
+  const isServed = (program: Program, state: string) => {
+    const entry = counts[program].get(state);
+    return !!entry && entry.initial + entry.followUp > 0;
+  };
+
+  const states = [...new Set([...counts.HRT.keys(), ...counts.TRT.keys()])].sort();
+  const total = (c: VisitTypeCounts | null) => (c ? c.initial + c.followUp : 0);
+  const stateDeltas = states
+    .map((state) => ({ state, hrt: counts.HRT.get(state) || null, trt: counts.TRT.get(state) || null }))
+    .sort((a, b) =>
+      Math.abs(total(b.hrt) - total(b.trt)) - Math.abs(total(a.hrt) - total(a.trt))
+      || a.state.localeCompare(b.state)
+    );
+
+  const hrtCoverage = getProviderCoverage(hrtPools, getPoolPartition, tierFilter);
+  const trtCoverage = getProviderCoverage(trtPools, getPoolPartition, tierFilter);
+  const providerDiffs: ProviderProgramDiff[] = [];
+  hrtCoverage.forEach((hrt, providerId) => {
+    const trt = trtCoverage.get(providerId);
+    if (!trt) return;
+    const hrtOnly = [...hrt.any].filter((state) => !trt.any.has(state)).sort();
+    const trtOnly = [...trt.any].filter((state) => !hrt.any.has(state)).sort();
+    if (hrtOnly.length === 0 && trtOnly.length === 0) return;
+    providerDiffs.push({
+      providerId,
+      name: hrt.name,
+      hrtOnly,
+      trtOnly,
+      shared: hrt.any.size - hrtOnly.length,
+    });
+  });
+  providerDiffs.sort((a, b) =>
+    (b.hrtOnly.length + b.trtOnly.length) - (a.hrtOnly.length + a.trtOnly.length)
+    || a.name.localeCompare(b.name)
+  );
+
+  return {
+    hrtOnlyStates: states.filter((state) => isServed("HRT", state) && !isServed("TRT", state)),
+    trtOnlyStates: states.filter((state) => isServed("TRT", state) && !isServed("HRT", state)),
+    stateDeltas,
+    providerDiffs,
+  };
+}
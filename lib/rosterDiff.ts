@@ -0,0 +1,95 @@
+import { PoolMember, Program, ResourcePool, VisitType } from "./types";
+
+// One pool whose roster differs between two versions
+export interface PoolDiff {
+  program: Program;
+  state: string;
+  visitType: VisitType;
+  kind: "added" | "removed" | "changed"; // "added"/"removed" when the whole pool is new or gone
+  added: PoolMember[];
+  removed: PoolMember[];
+}
+
+export interface StateChange {
+  program: Program;
+  state: string;
+  kind: "added" | "dropped";
+}
+
+export interface RosterDiff {
+  pools: PoolDiff[]; // By program, state, then visit type
+  states: StateChange[];
+  addedCount: number; // Provider assignments gained across all pools
+  removedCount: number;
+}
+
+const poolKey = (pool: ResourcePool) => `${pool.program}|${pool.state}|${pool.visitType}`;
+
+const comparePools = (a: Pick<ResourcePool, "program" | "state">, b: Pick<ResourcePool, "program" | "state">) =>
+  a.program.localeCompare(b.program) || a.state.localeCompare(b.state);
+
+/**
+ * Members of `pool` whose provider is not in `other`.
+ */
+function membersMissingFrom(pool: ResourcePool | undefined, other: ResourcePool | undefined): PoolMember[] {
+  if (!pool) return [];
+  const otherIds = new Set((other?.members || []).map((m) => m.providerId));
+  return pool.members.filter((m) => !otherIds.has(m.providerId));
+}
+
+/**
+ * States with at least one pool, per program.
+ */
+function statesByProgram(pools: ResourcePool[]): Set<string> {
+  return new Set(pools.map((pool) => `${pool.program}|${pool.state}`));
+}
+
+/**
+ * Compare two versions of the roster: providers added to or removed from
+ * each program/state/visit-type pool, and states added or dropped per
+ * program. Providers are matched by ID, so a spelling that resolves to the
+ * same provider, or a move between primary and back-up, is not a change.
+ */
+export function diffRosters(before: ResourcePool[], after: ResourcePool[]): RosterDiff {
+  const beforePools = new Map(before.map((pool) => [poolKey(pool), pool]));
+  const afterPools = new Map(after.map((pool) => [poolKey(pool), pool]));
+  const keys = new Set([...beforePools.keys(), ...afterPools.keys()]);
+
+  const pools: PoolDiff[] = [];
+  keys.forEach((key) => {
+    const old = beforePools.get(key);
+    const current = afterPools.get(key);
+    const added = membersMissingFrom(current, old);
+    const removed = membersMissingFrom(old, current);
+    if (old && current && added.length === 0 && removed.length === 0) return;
+
+    const { program, state, visitType } = (current || old)!;
+    pools.push({
+      program,
+      state,
+      visitType,
+      kind: !old ? "added" : !current ? "removed" : "changed",
+      added,
+      removed,
+    });
+  });
+  pools.sort((a, b) => comparePools(a, b) || a.visitType.localeCompare(b.visitType));
+
+  const beforeStates = statesByProgram(before);
+  const afterStates = statesByProgram(after);
+  const toChange = (key: string, kind: StateChange["kind"]): StateChange => {
+    const [program, state] = key.split("|");
+    return { program: program as Program, state, kind };
+  };
+  const states = [
+    ...[...afterStates].filter((key) => !beforeStates.has(key)).map((key) => toChange(key, "added")),
+    ...[...beforeStates].filter((key) => !afterStates.has(key)).map((key) => toChange(key, "dropped")),
+  ].sort(comparePools);
+
+  return {
+    pools,
+    states,
+    addedCount: pools.reduce((sum, pool) => sum + pool.added.length, 0),
+    removedCount: pools.reduce((sum, pool) => sum + pool.removed.length, 0),
+  };
+}
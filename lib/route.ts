@@ -1,4 +1,5 @@
 import { Program } from "./types";
+import { findUsState } from "./states";
 
 /**
  * Encode a state name for use in URL route params.
@@ -10,14 +11,18 @@ export function encodeStateParam(state: string): string {
 }
 
 /**
- * Decode a state name from URL route params.
+ * Decode a state from URL route params. Accepts a full name or USPS code
+ * ("Texas", "texas" or "TX") and returns the registry name; anything not
+ * in the registry is returned as decoded.
  */
 export function decodeStateParam(encoded: string): string {
+  let decoded: string;
   try {
-    return decodeURIComponent(encoded);
+    decoded = decodeURIComponent(encoded);
   } catch {
-    return encoded;
+    decoded = encoded;
   }
+  return findUsState(decoded)?.name ?? decoded;
 }
 
 /**
@@ -34,6 +39,41 @@ export function getAllUsersRoute(program: Program): string {
   return `/all/${program.toLowerCase()}`;
 }
 
+/**
+ * Decode a provider ID from URL route params.
+ * A malformed escape is returned as is, so it finds no provider.
+ */
+export function decodeProviderParam(encoded: string): string {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return encoded;
+  }
+}
+
+/**
+ * Generate route for a provider's profile page.
+ */
+export function getProviderRoute(providerId: string): string {
+  return `/provider/${encodeURIComponent(providerId)}`;
+}
+
+/**
+ * Generate route for the leave simulator, with providers preselected.
+ */
+export function getSimulatorRoute(providerIds: string[] = []): string {
+  return providerIds.length > 0
+    ? `/simulate?providers=${providerIds.map(encodeURIComponent).join(",")}`
+    : "/simulate";
+}
+
+/**
+ * Generate route for the roster changes page, comparing two snapshots.
+ */
+export function getChangesRoute(fromId: string, toId: string): string {
+  return `/changes?from=${encodeURIComponent(fromId)}&to=${encodeURIComponent(toId)}`;
+}
+
 /**
  * Validate and normalize program param from URL.
  */
@@ -0,0 +1,160 @@
+import {
+  CoverageCandidate,
+  CoverageRule,
+  ExclusionRule,
+  ExclusionsData,
+  PoolImpact,
+  PoolMember,
+  ResourcePool,
+} from "./types";
+import { buildExclusionIndex, isExclusionActive, partitionPool } from "./exclusions";
+import { getPoolMinimum } from "./coverage";
+
+export interface LeaveScenario {
+  providerIds: string[];
+  startDate: string; // YYYY-MM-DD, first day away
+  endDate?: string; // YYYY-MM-DD, last day away; omit for a permanent departure
+}
+
+/**
+ * The day after a YYYY-MM-DD date.
+ */
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Days within the leave on which the rules in effect can change: the first
+ * day, each rule's start date and the day after each rule's end date.
+ * Between two of these days every pool's roster stays the same.
+ */
+function getChangeDates(rules: ExclusionRule[], scenario: LeaveScenario): string[] {
+  const { startDate, endDate } = scenario;
+  const dates = new Set([startDate]);
+  rules.forEach((rule) => {
+    [rule.startDate, rule.endDate && nextDay(rule.endDate)].forEach((date) => {
+      if (date && date > startDate && (!endDate || date <= endDate)) dates.add(date);
+    });
+  });
+  return Array.from(dates).sort();
+}
+
+/**
+ * Providers active in the state's other pools who are not active in this one.
+ * Other visit types of the same program come first, then back-ups last.
+ */
+function findCandidates(
+  pool: ResourcePool,
+  pools: ResourcePool[],
+  activeAfter: Map<ResourcePool, PoolMember[]>
+): CoverageCandidate[] {
+  const alreadyActive = new Set((activeAfter.get(pool) || []).map((m) => m.providerId));
+  const candidates = new Map<string, CoverageCandidate & { sameProgram: boolean }>();
+
+  pools
+    .filter((other) => other !== pool && other.state === pool.state)
+    .forEach((other) => {
+      (activeAfter.get(other) || []).forEach((member) => {
+        if (alreadyActive.has(member.providerId)) return;
+        const candidate = candidates.get(member.providerId) || {
+          providerId: member.providerId,
+          name: member.name,
+          tier: member.tier,
+          sources: [],
+          sameProgram: false,
+        };
+        candidate.sources.push({ program: other.program, visitType: other.visitType });
+        candidate.sameProgram ||= other.program === pool.program;
+        if (member.tier === "primary") candidate.tier = "primary";
+        candidates.set(member.providerId, candidate);
+      });
+    });
+
+  return Array.from(candidates.values())
+    .sort((a, b) =>
+      Number(b.sameProgram) - Number(a.sameProgram)
+      || (a.tier === b.tier ? 0 : a.tier === "primary" ? -1 : 1)
+      || a.name.localeCompare(b.name)
+    )
+    .map(({ providerId, name, tier, sources }) => ({ providerId, name, tier, sources }));
+}
+
+/**
+ * Whether a pool's impact on one day is worse than what was recorded for it.
+ * Newly losing coverage outranks being short already; then fewer primaries.
+ */
+function isWorseImpact(candidate: Pick<PoolImpact, "alreadyShort" | "activeAfter">, current?: PoolImpact): boolean {
+  if (!current) return true;
+  if (candidate.alreadyShort !== current.alreadyShort) return !candidate.alreadyShort;
+  return candidate.activeAfter < current.activeAfter;
+}
+
+/**
+ * Pools that would drop below their minimum if the given providers left,
+ * plus pools already below it that lose a leaving provider (alreadyShort).
+ * Only primary providers count towards the minimum. The leave is checked on
+ * every day the exclusions in effect change, and each pool is reported for
+ * the day it is worst off. Leaving providers are removed outright, so
+ * include overrides do not keep them in a pool.
+ */
+export function simulateLeave(
+  scenario: LeaveScenario,
+  pools: ResourcePool[],
+  exclusions: ExclusionsData,
+  coverageRules: CoverageRule[]
+): PoolImpact[] {
+  const leaving = new Set(scenario.providerIds);
+  if (leaving.size === 0) return [];
+
+  const legacyRules: ExclusionRule[] = exclusions.excludedUsers.map((user) => ({ user }));
+  const impacts = new Map<ResourcePool, PoolImpact>();
+
+  getChangeDates(exclusions.stateExclusions, scenario).forEach((date) => {
+    const index = buildExclusionIndex([
+      ...legacyRules,
+      ...exclusions.stateExclusions.filter((rule) => isExclusionActive(rule, date)),
+    ]);
+
+    const activeBefore = new Map<ResourcePool, PoolMember[]>();
+    const activeAfter = new Map<ResourcePool, PoolMember[]>();
+    pools.forEach((pool) => {
+      const { active } = partitionPool(index, pool);
+      activeBefore.set(pool, active);
+      activeAfter.set(pool, active.filter((m) => !leaving.has(m.providerId)));
+    });
+
+    pools.forEach((pool) => {
+      const before = activeBefore.get(pool)!;
+      const lost = before.filter((m) => leaving.has(m.providerId));
+      // Back-ups do not count towards the minimum, as in the coverage rules
+      const primaryBefore = before.filter((m) => m.tier === "primary").length;
+      const primaryAfter = activeAfter.get(pool)!.filter((m) => m.tier === "primary").length;
+      const minimum = getPoolMinimum(coverageRules, pool);
+      if (lost.length === 0) return;
+      const alreadyShort = primaryBefore < minimum;
+      // A pool newly loses coverage only when a primary leaves and takes it below the minimum
+      if (!alreadyShort && primaryAfter >= minimum) return;
+      if (!isWorseImpact({ alreadyShort, activeAfter: primaryAfter }, impacts.get(pool))) return;
+
+      impacts.set(pool, {
+        pool,
+        activeBefore: primaryBefore,
+        activeAfter: primaryAfter,
+        minimum,
+        alreadyShort,
+        lost,
+        date,
+        candidates: findCandidates(pool, pools, activeAfter),
+      });
+    });
+  });
+
+  return Array.from(impacts.values()).sort((a, b) =>
+    a.activeAfter - b.activeAfter
+    || a.pool.program.localeCompare(b.pool.program)
+    || a.pool.state.localeCompare(b.pool.state)
+    || a.pool.visitType.localeCompare(b.pool.visitType)
+  );
+}
@@ -0,0 +1,16 @@
+import { cookies } from "next/headers";
+import { findHistoricalSnapshot } from "./data";
+import { RosterSnapshotInfo } from "./types";
+
+// Set by the snapshot picker; every page renders the roster it names
+export const SNAPSHOT_COOKIE = "resourcePoolViewer_snapshot";
+
+/**
+ * The past snapshot chosen in the snapshot picker, or null when viewing
+ * the current roster.
+ * Server-side only.
+ */
+export async function getViewedSnapshot(): Promise<RosterSnapshotInfo | null> {
+  const id = (await cookies()).get(SNAPSHOT_COOKIE)?.value;
+  return id ? findHistoricalSnapshot(id) : null;
+}
@@ -1,23 +1,164 @@
 export type Program = "HRT" | "TRT";
 export type VisitType = "Initial" | "Follow Up";
+export type ProviderTier = "primary" | "backup";
+export type TierFilter = ProviderTier | "all";
+
+export interface Provider {
+  id: string;
+  name: string; // Canonical display name
+  aliases: string[]; // Alternate spellings used in the sheets
+}
+
+export interface ProviderDirectory {
+  providers: Provider[];
+}
+
+export interface ProviderRef {
+  providerId: string;
+  name: string; // Canonical display name (raw cell text when unmatched)
+  matched: boolean; // False when the cell matched no provider in the directory
+}
+
+export interface PoolMember extends ProviderRef {
+  tier: ProviderTier; // "backup" for names listed below the sheet's Back-up marker
+  order: number; // Position within the column, starting at 1
+}
+
+export type PoolFlag = "no-marketing" | "asterisk" | "note";
+
+export interface PoolAnnotation {
+  flag: PoolFlag; // "note" for any annotation without a known meaning
+  text: string; // Original sheet text, e.g. "no marketing" or "Initial*"
+}
 
 export interface ResourcePool {
   program: Program;
   state: string;
   visitType: VisitType;
-  users: string[];
+  members: PoolMember[]; // Column order: primary providers first, then back-ups
+  annotations: PoolAnnotation[]; // Header parentheticals and visit-type asterisks
 }
 
-export interface StateExclusion {
+export interface UnmatchedProvider {
+  name: string;
   program: Program;
   state: string;
+  visitType: VisitType;
+  suggestions: Provider[];
+}
+
+export type SkipReason = "legend" | "closed" | "backup-marker" | "unmapped-column";
+
+export interface SkippedCell {
+  row: number; // 1-based sheet row
+  column: number; // 1-based sheet column
+  value: string;
+  reason: SkipReason;
+  state?: string; // Set when the column maps to a pool
+  visitType?: VisitType;
+}
+
+export type HeaderAnomalyKind =
+  | "ignored-header"
+  | "unknown-state"
+  | "unknown-visit-type"
+  | "duplicate-column"
+  | "no-state-headers"
+  | "missing-visit-type-row"
+  | "too-few-rows";
+
+export interface HeaderAnomaly {
+  kind: HeaderAnomalyKind;
+  column?: number; // 1-based sheet column, when the anomaly is tied to one
+  header: string;
+  message: string;
+  fatal: boolean; // True when the sheet cannot be parsed into pools at all
+}
+
+export interface LoadError {
+  file: string;
+  message: string;
+}
+
+export interface ParseReport {
+  program: Program;
+  rowCount: number;
+  poolCount: number;
+  memberCount: number;
+  parseErrors: { row?: number; message: string }[]; // CSV syntax errors from papaparse
+  headerAnomalies: HeaderAnomaly[];
+  skippedCells: SkippedCell[];
+  unmatchedProviders: UnmatchedProvider[];
+  loadErrors: LoadError[];
+}
+
+export type ExclusionReason = "backup" | "license-pending" | "leave" | "no-marketing" | "other";
+
+export type ExclusionEffect = "exclude" | "include";
+
+// Narrowest first; see resolveExclusionRule for precedence
+export type ExclusionScope = "visit-type" | "state" | "program" | "global";
+
+/**
+ * An exclude or include override for one provider.
+ * The scope follows from which fields are set: no program is global,
+ * program only is program-wide, program + state is one state, and
+ * program + state + visit type is one pool.
+ */
+export interface ExclusionRule {
+  effect?: ExclusionEffect; // Defaults to "exclude"
+  program?: Program;
+  state?: string; // Requires program
   user: string;
-  visitType?: VisitType; // Optional - if not specified, applies to both
+  visitType?: VisitType; // Requires state; if not specified, applies to both
+  reason?: ExclusionReason; // Missing on entries created before reasons were recorded
+  note?: string;
+  createdBy?: string;
+  createdAt?: string; // ISO timestamp
+  startDate?: string; // YYYY-MM-DD, first day the rule applies
+  endDate?: string; // YYYY-MM-DD, last day the rule applies
+}
+
+// A rule scoped to one state, optionally narrowed to one visit type
+export interface StateExclusion extends ExclusionRule {
+  program: Program;
+  state: string;
+}
+
+// Reason and note applied to exclusions created from the UI
+export interface ExclusionDetails {
+  reason: ExclusionReason;
+  note: string;
+  startDate: string; // YYYY-MM-DD or "" for no start
+  endDate: string; // YYYY-MM-DD or "" for no end
+}
+
+// One provider assignment that a toggle or bulk action sets the status of
+export interface ExclusionTarget {
+  name: string;
+  program: Program;
+  state: string;
+  visitType?: VisitType; // Omit to cover both visit types
+}
+
+// Rule edits that carry out a toggle or bulk action
+export interface ExclusionChange {
+  removed: ExclusionRule[];
+  added: ExclusionRule[];
+}
+
+export type ExclusionAction = "add" | "remove";
+
+export interface ExclusionAuditEntry {
+  action: ExclusionAction;
+  exclusion: ExclusionRule;
+  actor: string;
+  at: string; // ISO timestamp
 }
 
 export interface ExclusionsData {
-  excludedUsers: string[]; // Global exclusions (legacy)
-  stateExclusions: StateExclusion[]; // Per-state exclusions
+  excludedUsers: string[]; // Global exclusions (legacy); treated as global exclude rules
+  stateExclusions: ExclusionRule[]; // Exclude and include rules of every scope
 }
 
 export interface UserEntry {
@@ -26,3 +167,67 @@ export interface UserEntry {
   visitType: VisitType;
   isExcluded: boolean;
 }
+
+export type CoverageRuleType = "min-active" | "max-states" | "backup-required";
+
+/**
+ * A staffing rule from data/coverage-rules.json.
+ * Program, state and visit type narrow the pools a rule checks; leave them
+ * out to check every pool.
+ */
+export interface CoverageRule {
+  id: string;
+  type: CoverageRuleType;
+  description?: string;
+  program?: Program;
+  state?: string;
+  visitType?: VisitType;
+  min?: number; // min-active: active providers each pool needs
+  max?: number; // max-states: states one provider may be active in
+}
+
+// One place where the active roster breaks a coverage rule
+export interface CoverageViolation {
+  rule: CoverageRule;
+  program?: Program; // Unset for providers counted across both programs
+  state?: string; // Unset for provider-level rules
+  visitType?: VisitType;
+  providerId?: string; // Set for provider-level rules
+  providerName?: string;
+  actual: number;
+  expected: number;
+  message: string;
+}
+
+// A provider who could cover a pool because they are active in another pool of the same state
+export interface CoverageCandidate {
+  providerId: string;
+  name: string;
+  tier: ProviderTier;
+  sources: { program: Program; visitType: VisitType }[]; // Pools they are active in now
+}
+
+// A pool that a simulated leave drops below its minimum, or that was below it already
+export interface PoolImpact {
+  pool: ResourcePool;
+  activeBefore: number; // Active primary providers
+  activeAfter: number;
+  minimum: number;
+  alreadyShort: boolean; // Below its minimum before the leave started
+  lost: PoolMember[]; // Leaving providers who were active in the pool
+  date: string; // YYYY-MM-DD the pool is worst off during the leave
+  candidates: CoverageCandidate[];
+}
+
+// A saved version of the roster, recorded each time new CSVs are loaded
+export interface RosterSnapshotInfo {
+  id: string; // Creation time plus content hash, e.g. "20261019T140322Z-1a2b3c4d5e6f"
+  createdAt: string; // ISO timestamp
+  hash: string; // Hash of the CSVs and provider directory it was parsed from
+}
+
+export interface RosterSnapshot extends RosterSnapshotInfo {
+  hrt: ResourcePool[];
+  trt: ResourcePool[];
+  exclusions: ExclusionsData; // Exclusions as they stood when the snapshot was recorded
+}
@@ -1,166 +1,258 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
-import { ExclusionsData, Program, StateExclusion, VisitType } from "./types";
-
-const LOCAL_STORAGE_KEY = "resourcePoolViewer_stateExclusions_v2";
+import { useState, useEffect, useCallback, useMemo, useSyncExternalStore } from "react";
+import {
+  ExclusionChange,
+  ExclusionDetails,
+  ExclusionEffect,
+  ExclusionRule,
+  ExclusionsData,
+  ExclusionTarget,
+  Program,
+  ResourcePool,
+  VisitType,
+} from "./types";
+import {
+  findExcludingRule,
+  isExclusionActive,
+  partitionPool,
+  planExclusionChange,
+  PoolPartition,
+  ruleEffect,
+  toIsoDate,
+} from "./exclusions";
+import {
+  applyExclusionChange,
+  ExclusionHistoryEntry,
+  ExclusionsSnapshot,
+  getExclusionIndex,
+  getExclusionsSnapshot,
+  loadSharedExclusions,
+  redoExclusionChange,
+  setExclusionActor,
+  undoExclusionChange,
+  subscribeExclusions,
+} from "./exclusionStore";
+import { useViewedSnapshot } from "./useViewedSnapshot";
 
 interface UseExclusionsReturn {
+  exclusions: ExclusionRule[];
+  excludedUsers: string[]; // Legacy global exclusions
+  asOf: string;
+  setAsOf: (date: string) => void;
   isExcluded: (name: string, state?: string, program?: Program, visitType?: VisitType) => boolean;
+  getExclusion: (name: string, state?: string, program?: Program, visitType?: VisitType) => ExclusionRule | undefined;
+  getPoolPartition: (pool: ResourcePool) => PoolPartition;
   toggleExcluded: (name: string, state: string, program: Program, visitType?: VisitType) => void;
+  planExclusions: (targets: ExclusionTarget[], exclude: boolean) => ExclusionChange;
+  applyExclusions: (change: ExclusionChange, label: string) => void;
+  removeExclusions: (entries: ExclusionRule[]) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  recentChanges: ExclusionHistoryEntry[];
+  exclusionDetails: ExclusionDetails;
+  setExclusionDetails: (details: ExclusionDetails) => void;
+  actor: string;
+  setActor: (actor: string) => void;
   showExcluded: boolean;
   setShowExcluded: (show: boolean) => void;
   getExcludedCountForState: (state: string, program: Program, visitType?: VisitType) => number;
   getTotalExcludedCount: (program: Program) => number;
   isLoaded: boolean;
+  readOnly: boolean; // True while viewing a past snapshot
 }
 
 /**
  * Hook for managing user exclusions.
- * Supports per-state and per-visit-type exclusions.
+ * Evaluates exclude and include rules of every scope (see resolveExclusionRule
+ * for precedence); the legacy excludedUsers list counts as global exclude rules.
+ * Exclusions are shared through the server; toggles apply immediately and
+ * roll back if the server rejects them. Changes saved in other tabs are
+ * merged in as they arrive.
+ * Lookups only see exclusions in effect on the `asOf` date (default today).
+ * While a past snapshot is viewed, the exclusions saved with it are shown
+ * instead and cannot be changed.
  */
 export function useExclusions(
   serverExclusions: ExclusionsData
 ): UseExclusionsReturn {
-  const [localOverrides, setLocalOverrides] = useState<StateExclusion[]>([]);
+  // Rendered on the server and during hydration, before the shared list loads
+  const serverSnapshot = useMemo<ExclusionsSnapshot>(
+    () => ({
+      rules: serverExclusions.stateExclusions || [],
+      excludedUsers: serverExclusions.excludedUsers || [],
+      actor: "",
+      isLoaded: false,
+      undoStack: [],
+      redoStack: [],
+    }),
+    [serverExclusions]
+  );
+  const sharedSnapshot = useSyncExternalStore(
+    subscribeExclusions,
+    getExclusionsSnapshot,
+    () => serverSnapshot
+  );
+  const readOnly = useViewedSnapshot() !== null;
+  const frozenSnapshot = useMemo(() => ({ ...serverSnapshot, isLoaded: true }), [serverSnapshot]);
+  const snapshot = readOnly ? frozenSnapshot : sharedSnapshot;
+
   const [showExcluded, setShowExcluded] = useState(false);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const [exclusionDetails, setExclusionDetails] = useState<ExclusionDetails>({
+    reason: "other",
+    note: "",
+    startDate: "",
+    endDate: "",
+  });
+  const [asOf, setAsOf] = useState(() => toIsoDate(new Date()));
 
-  // Load localStorage on mount (client-side only)
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        if (Array.isArray(parsed)) {
-          setLocalOverrides(parsed);
-        }
-      }
-    } catch (e) {
-      console.warn("Failed to load exclusions from localStorage:", e);
-    }
-    setIsLoaded(true);
-  }, []);
-
-  // Save to localStorage when overrides change
-  useEffect(() => {
-    if (isLoaded) {
-      try {
-        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(localOverrides));
-      } catch (e) {
-        console.warn("Failed to save exclusions to localStorage:", e);
-      }
-    }
-  }, [localOverrides, isLoaded]);
-
-  // Merge server exclusions with local overrides
-  const allExclusions = useMemo(() => {
-    return {
-      serverExclusions: serverExclusions.stateExclusions || [],
-      localOverrides,
-    };
-  }, [serverExclusions.stateExclusions, localOverrides]);
+    if (!readOnly) loadSharedExclusions(serverExclusions);
+  }, [serverExclusions, readOnly]);
+
+  const index = useMemo(() => getExclusionIndex(snapshot, asOf), [snapshot, asOf]);
 
   const isExcluded = useCallback(
     (name: string, state?: string, program?: Program, visitType?: VisitType): boolean => {
-      const lowerName = name.toLowerCase().trim();
-      
-      // If no state provided, check if excluded in ANY state (for global views)
-      if (!state || !program) {
-        const serverExcluded = allExclusions.serverExclusions.some(
-          (e) => e.user.toLowerCase().trim() === lowerName
-        );
-        const localExcluded = localOverrides.some(
-          (e) => e.user.toLowerCase().trim() === lowerName
-        );
-        return serverExcluded || localExcluded;
-      }
-      
-      // Check local overrides first (they take precedence)
-      const localOverride = localOverrides.find(
-        (e) => 
-          e.program === program && 
-          e.state === state && 
-          e.user.toLowerCase().trim() === lowerName &&
-          (!visitType || !e.visitType || e.visitType === visitType)
-      );
-      
-      if (localOverride !== undefined) {
-        return true;
-      }
-      
-      // Check server exclusions
-      const serverExcluded = allExclusions.serverExclusions.some(
-        (e) => 
-          e.program === program && 
-          e.state === state && 
-          e.user.toLowerCase().trim() === lowerName &&
-          (!visitType || !e.visitType || e.visitType === visitType)
+      return findExcludingRule(index, name, state, program, visitType) !== undefined;
+    },
+    [index]
+  );
+
+  const getExclusion = useCallback(
+    (name: string, state?: string, program?: Program, visitType?: VisitType): ExclusionRule | undefined => {
+      return findExcludingRule(index, name, state, program, visitType);
+    },
+    [index]
+  );
+
+  const getPoolPartition = useCallback(
+    (pool: ResourcePool): PoolPartition => partitionPool(index, pool),
+    [index]
+  );
+
+  /**
+   * Rule edits that exclude (or include) every target, without applying them.
+   * New rules carry the current reason, note, dates and author.
+   */
+  const planExclusions = useCallback(
+    (targets: ExclusionTarget[], exclude: boolean): ExclusionChange => {
+      const createRule = (target: ExclusionTarget, effect: ExclusionEffect): ExclusionRule => ({
+        effect,
+        program: target.program,
+        state: target.state,
+        user: target.name,
+        visitType: target.visitType,
+        reason: effect === "exclude" ? exclusionDetails.reason : undefined,
+        note: exclusionDetails.note.trim() || undefined,
+        createdBy: snapshot.actor || undefined,
+        createdAt: new Date().toISOString(),
+        startDate: exclusionDetails.startDate || undefined,
+        endDate: exclusionDetails.endDate || undefined,
+      });
+      return planExclusionChange(
+        snapshot.rules,
+        snapshot.excludedUsers.map((user) => ({ user })),
+        targets,
+        exclude,
+        createRule,
+        asOf
       );
-      
-      return serverExcluded;
     },
-    [allExclusions, localOverrides]
+    [snapshot, asOf, exclusionDetails]
   );
 
-  const toggleExcluded = useCallback((name: string, state: string, program: Program, visitType?: VisitType): void => {
-    setLocalOverrides((prev) => {
-      const lowerName = name.toLowerCase().trim();
-      const existingIndex = prev.findIndex(
-        (e) => 
-          e.program === program && 
-          e.state === state && 
-          e.user.toLowerCase().trim() === lowerName &&
-          e.visitType === visitType
+  const applyExclusions = useCallback((change: ExclusionChange, label: string): void => {
+    if (!readOnly) applyExclusionChange(change.removed, change.added, label);
+  }, [readOnly]);
+
+  /**
+   * Flip what the user sees for a provider in a state (or one visit type there).
+   * Rules at that scope or narrower are removed; if broader rules would still
+   * give the same result, an explicit override is added at that scope.
+   */
+  const toggleExcluded = useCallback(
+    (name: string, state: string, program: Program, visitType?: VisitType): void => {
+      const wasExcluded = findExcludingRule(index, name, state, program, visitType) !== undefined;
+      const where = `${program} ${state}${visitType ? ` (${visitType})` : ""}`;
+      applyExclusions(
+        planExclusions([{ name, program, state, visitType }], !wasExcluded),
+        `${wasExcluded ? "Included" : "Excluded"} ${name} in ${where}`
       );
-      
-      if (existingIndex >= 0) {
-        return prev.filter((_, i) => i !== existingIndex);
-      } else {
-        return [...prev, { program, state, user: name, visitType }];
-      }
-    });
-  }, []);
+    },
+    [index, planExclusions, applyExclusions]
+  );
+
+  const removeExclusions = useCallback((entries: ExclusionRule[]): void => {
+    if (readOnly) return;
+    applyExclusionChange(
+      entries,
+      [],
+      entries.length === 1
+        ? `Removed rule for ${entries[0].user}`
+        : `Removed ${entries.length} rules`
+    );
+  }, [readOnly]);
+
+  const undo = useCallback((): void => {
+    if (!readOnly) undoExclusionChange();
+  }, [readOnly]);
+
+  const redo = useCallback((): void => {
+    if (!readOnly) redoExclusionChange();
+  }, [readOnly]);
+
+  // Newest first
+  const recentChanges = useMemo(() => [...snapshot.undoStack].reverse(), [snapshot.undoStack]);
 
   const getExcludedCountForState = useCallback(
     (state: string, program: Program, visitType?: VisitType): number => {
-      const serverCount = allExclusions.serverExclusions.filter(
-        (e) => e.program === program && e.state === state && 
+      return snapshot.rules.filter(
+        (e) => isExclusionActive(e, asOf) && ruleEffect(e) === "exclude" &&
+          e.program === program && e.state === state &&
           (!visitType || !e.visitType || e.visitType === visitType)
       ).length;
-      
-      const localCount = localOverrides.filter(
-        (e) => e.program === program && e.state === state &&
-          (!visitType || !e.visitType || e.visitType === visitType)
-      ).length;
-      
-      return serverCount + localCount;
     },
-    [allExclusions, localOverrides]
+    [snapshot, asOf]
   );
 
   const getTotalExcludedCount = useCallback(
     (program: Program): number => {
-      const serverCount = allExclusions.serverExclusions.filter(
-        (e) => e.program === program
-      ).length;
-      
-      const localCount = localOverrides.filter(
-        (e) => e.program === program
+      return snapshot.rules.filter(
+        (e) => isExclusionActive(e, asOf) && ruleEffect(e) === "exclude" && e.program === program
       ).length;
-      
-      return serverCount + localCount;
     },
-    [allExclusions, localOverrides]
+    [snapshot, asOf]
   );
 
   return {
+    exclusions: snapshot.rules,
+    excludedUsers: snapshot.excludedUsers,
+    asOf,
+    setAsOf,
     isExcluded,
+    getExclusion,
+    getPoolPartition,
     toggleExcluded,
+    planExclusions,
+    applyExclusions,
+    removeExclusions,
+    undo,
+    redo,
+    canUndo: !readOnly && snapshot.undoStack.length > 0,
+    canRedo: !readOnly && snapshot.redoStack.length > 0,
+    recentChanges,
+    exclusionDetails,
+    setExclusionDetails,
+    actor: snapshot.actor,
+    setActor: setExclusionActor,
     showExcluded,
     setShowExcluded,
     getExcludedCountForState,
     getTotalExcludedCount,
-    isLoaded,
+    isLoaded: snapshot.isLoaded,
+    readOnly,
   };
 }
@@ -0,0 +1,57 @@
+"use client";
+
+import { createContext, useCallback, useContext, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { RosterSnapshotInfo } from "./types";
+
+const API_PATH = "/api/snapshots";
+
+// The past snapshot pages are rendered from; null for the current roster
+export const ViewedSnapshotContext = createContext<RosterSnapshotInfo | null>(null);
+
+/**
+ * The past snapshot being viewed, or null when viewing the current roster.
+ */
+export function useViewedSnapshot(): RosterSnapshotInfo | null {
+  return useContext(ViewedSnapshotContext);
+}
+
+/**
+ * Choose the snapshot pages are rendered from (null for the current roster).
+ */
+async function selectRosterSnapshot(id: string | null): Promise<void> {
+  const response = await fetch(API_PATH, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `POST ${API_PATH} failed with status ${response.status}`);
+  }
+}
+
+/**
+ * Switch every page to a past snapshot, or back to the current roster with
+ * null, then re-render the current page from it.
+ */
+export function useSwitchSnapshot(): { switchSnapshot: (id: string | null) => void; isSwitching: boolean } {
+  const router = useRouter();
+  const [isSwitching, startTransition] = useTransition();
+
+  const switchSnapshot = useCallback(
+    (id: string | null) => {
+      startTransition(async () => {
+        try {
+          await selectRosterSnapshot(id);
+          router.refresh();
+        } catch (e) {
+          console.warn("Failed to switch snapshot:", e);
+        }
+      });
+    },
+    [router]
+  );
+
+  return { switchSnapshot, isSwitching };
+}